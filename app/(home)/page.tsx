@@ -43,8 +43,12 @@ function HomeContent() {
     setUploadedFile({ url, name: file.name });
   };
 
-  const handleProcessingComplete = (result: { documentId: string }) => {
+  const handleProcessingComplete = (result: { documentId: string; sessionId?: string }) => {
     setUploadedFile(prev => prev ? { ...prev, documentId: result.documentId } : null);
+    // A reused (duplicate) document comes with its own new chat session
+    if (result.sessionId) {
+      setActiveSessionId(result.sessionId);
+    }
   };
 
   return (
@@ -52,7 +56,7 @@ function HomeContent() {
       <div className="grid h-full grid-cols-1 gap-4 lg:grid-cols-2">
         {/* Left Panel - DropZone or PDF Viewer */}
         {uploadedFile ? (
-          <ViewMedicalFile fileUrl={uploadedFile.url} fileName={uploadedFile.name} />
+          <ViewMedicalFile fileUrl={uploadedFile.url} fileName={uploadedFile.name} documentId={uploadedFile.documentId} />
         ) : (
           <MedicalFileUpload
             onFileUploaded={handleFileUploaded}
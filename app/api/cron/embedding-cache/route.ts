@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { clearEmbeddingCache } from "@/lib/embedding-cache";
+
+// ============================================
+// DELETE /api/cron/embedding-cache
+// Vacía el cache de embeddings; ?persistent=true borra también la tabla
+// El LRU de consultas y los contadores son por instancia: solo se reinician
+// los de la instancia que atiende el request (las demás conservan los suyos)
+// ============================================
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // 1. Vaciar el cache afecta a todos los usuarios: solo con el secreto del cron
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json(
+        { error: "No autorizado" },
+        { status: 401 }
+      );
+    }
+
+    // 2. Vaciar el LRU y, si se pide, la tabla
+    const persistent = request.nextUrl.searchParams.get("persistent") === "true";
+    const cleared = await clearEmbeddingCache({ persistent });
+
+    if (!cleared) {
+      return NextResponse.json(
+        { error: "Error al vaciar el cache de embeddings" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: { persistent }
+    });
+
+  } catch (error) {
+    console.error("[API] Error clearing embedding cache:", error);
+    return NextResponse.json(
+      { error: "Error interno del servidor al vaciar el cache" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { sweepOrphans } from "@/lib/ingestion-sweeper";
+
+// ============================================
+// GET /api/cron/orphans
+// Barrido periódico de restos de ingestas fallidas (ver vercel.json)
+// ============================================
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Solo el cron (o quien tenga el secreto) puede ejecutar el barrido
+    const secret = process.env.CRON_SECRET;
+
+    if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+      return NextResponse.json(
+        { error: "No autorizado" },
+        { status: 401 }
+      );
+    }
+
+    // 2. Buscar y reportar huérfanos
+    const result = await sweepOrphans();
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error || "Error al buscar huérfanos" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.report
+    });
+
+  } catch (error) {
+    console.error("[API] Error sweeping orphans:", error);
+    return NextResponse.json(
+      { error: "Error interno del servidor al buscar huérfanos" },
+      { status: 500 }
+    );
+  }
+}
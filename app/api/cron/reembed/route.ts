@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { startReembedding, runReembedding, getLatestReembedding } from "@/lib/reembedding";
+import { isEmbeddingProvider, EMBEDDING_PROVIDER_NAMES } from "@/lib/embeddings";
+
+// ============================================
+// /api/cron/reembed
+// Re-vectorización de todos los chunks a otro modelo o dimensión
+// POST inicia (o retoma) una corrida; GET (cron, ver vercel.json) continúa la que esté en curso
+// Cuando la corrida queda "ready", configurar EMBEDDING_PROVIDER y EMBEDDING_DIMENSIONS con el destino:
+// la búsqueda usa los vectores nuevos aunque no estén promovidos y el siguiente GET los promueve
+// ============================================
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Solo quien tenga el secreto puede re-vectorizar
+    if (!isAuthorized(request)) {
+      return NextResponse.json(
+        { error: "No autorizado" },
+        { status: 401 }
+      );
+    }
+
+    // 2. Validar el destino
+    const body = await request.json().catch(() => ({}));
+    const { provider, dimensions } = body as { provider?: unknown; dimensions?: unknown };
+
+    if (typeof provider !== "string" || !isEmbeddingProvider(provider)) {
+      return NextResponse.json(
+        { error: `Proveedor inválido. Opciones: ${EMBEDDING_PROVIDER_NAMES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    if (typeof dimensions !== "number") {
+      return NextResponse.json(
+        { error: "dimensions debe ser un número" },
+        { status: 400 }
+      );
+    }
+
+    // 3. Registrar la corrida y procesarla en segundo plano
+    const result = await startReembedding({ provider, dimensions });
+
+    if (!result.success || !result.migrationId) {
+      return NextResponse.json(
+        { error: result.error || "Error al iniciar la re-vectorización" },
+        { status: 400 }
+      );
+    }
+
+    const migrationId = result.migrationId;
+    after(() => runReembedding(migrationId));
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: { migrationId, status: "running" }
+      },
+      { status: 202 }
+    );
+
+  } catch (error) {
+    console.error("[API] Error starting re-embedding:", error);
+    return NextResponse.json(
+      { error: "Error interno del servidor al iniciar la re-vectorización" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isAuthorized(request)) {
+      return NextResponse.json(
+        { error: "No autorizado" },
+        { status: 401 }
+      );
+    }
+
+    // Continuar la corrida en curso, o promover la que espera el cambio de entorno
+    const migration = await getLatestReembedding();
+
+    if (migration?.status === "running" || migration?.status === "ready") {
+      after(() => runReembedding(migration.id));
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: migration
+    });
+
+  } catch (error) {
+    console.error("[API] Error resuming re-embedding:", error);
+    return NextResponse.json(
+      { error: "Error interno del servidor al continuar la re-vectorización" },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Verifica el secreto del cron (Authorization: Bearer CRON_SECRET)
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && request.headers.get("authorization") === `Bearer ${secret}`;
+}
+
+// La corrida avanza con after() hasta agotar su tiempo (ver REEMBEDDING_CONFIG)
+export const maxDuration = 300; // 5 minutos
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerClient } from "@supabase/ssr";
+import { cookies } from "next/headers";
+import { getDocumentById, canUserAccessDocument } from "@/lib/document-storage";
+import { diffDocumentVersions } from "@/lib/document-versions";
+
+// ============================================
+// GET /api/documents/[id]/diff
+// Cambios del documento respecto de otra versión del mismo registro
+// ?base=<id> elige la versión de referencia (default: la anterior)
+// ============================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await params;
+
+    // 1. Obtener el usuario autenticado
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          getAll() {
+            return cookieStore.getAll();
+          },
+          setAll(cookiesToSet) {
+            try {
+              cookiesToSet.forEach(({ name, value, options }) =>
+                cookieStore.set(name, value, options)
+              );
+            } catch {
+              // Ignorar error si se llama desde un Server Component
+            }
+          },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    // 2. Verificar que el documento exista y que el usuario tenga acceso
+    const document = await getDocumentById(documentId);
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Documento no encontrado" },
+        { status: 404 }
+      );
+    }
+
+    if (document.user_id && !(await canUserAccessDocument(documentId, user.id))) {
+      return NextResponse.json(
+        { error: "No autorizado para ver este documento" },
+        { status: 403 }
+      );
+    }
+
+    // 3. Resolver la versión de referencia
+    const baseId = request.nextUrl.searchParams.get("base") || document.previous_version_id;
+
+    if (!baseId) {
+      return NextResponse.json(
+        { error: "El documento no tiene una versión anterior" },
+        { status: 404 }
+      );
+    }
+
+    const base = await getDocumentById(baseId);
+
+    if (!base || base.record_id !== document.record_id) {
+      return NextResponse.json(
+        { error: "La versión de referencia no pertenece al mismo registro" },
+        { status: 400 }
+      );
+    }
+
+    // 4. Comparar
+    const result = await diffDocumentVersions(baseId, documentId);
+
+    if (!result.success || !result.diff) {
+      return NextResponse.json(
+        { error: result.error || "Error al comparar las versiones" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.diff
+    });
+
+  } catch (error) {
+    console.error("[API] Error diffing document versions:", error);
+    return NextResponse.json(
+      { error: "Error interno del servidor al comparar las versiones" },
+      { status: 500 }
+    );
+  }
+}
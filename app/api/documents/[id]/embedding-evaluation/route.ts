@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerClient } from "@supabase/ssr";
+import { cookies } from "next/headers";
+import { getDocumentById, canUserAccessDocument } from "@/lib/document-storage";
+import { evaluateContextualRetrieval, RetrievalEvaluationCase } from "@/lib/contextual-embeddings";
+
+// ============================================
+// POST /api/documents/[id]/embedding-evaluation
+// Compara la recuperación con embeddings del contenido solo y con encabezado de contexto
+// Body: { cases: [{ query, relevantChunkIndexes }], topK? }
+// ============================================
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await params;
+
+    // 1. Obtener el usuario autenticado
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          getAll() {
+            return cookieStore.getAll();
+          },
+          setAll(cookiesToSet) {
+            try {
+              cookiesToSet.forEach(({ name, value, options }) =>
+                cookieStore.set(name, value, options)
+              );
+            } catch {
+              // Ignorar error si se llama desde un Server Component
+            }
+          },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    // 2. Verificar que el documento exista y que el usuario tenga acceso
+    const document = await getDocumentById(documentId);
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Documento no encontrado" },
+        { status: 404 }
+      );
+    }
+
+    if (document.user_id && !(await canUserAccessDocument(documentId, user.id))) {
+      return NextResponse.json(
+        { error: "No autorizado para ver este documento" },
+        { status: 403 }
+      );
+    }
+
+    // 3. Validar las consultas etiquetadas
+    const body = await request.json().catch(() => null);
+    const cases = Array.isArray(body?.cases) ? body.cases.filter(isEvaluationCase) : [];
+
+    if (cases.length === 0) {
+      return NextResponse.json(
+        { error: "Se requiere cases: [{ query, relevantChunkIndexes }]" },
+        { status: 400 }
+      );
+    }
+
+    const topK = typeof body.topK === "number" && body.topK > 0 ? Math.floor(body.topK) : undefined;
+
+    // 4. Evaluar
+    const result = await evaluateContextualRetrieval(documentId, cases, topK);
+
+    if (!result.success || !result.evaluation) {
+      return NextResponse.json(
+        { error: result.error || "Error al evaluar los embeddings" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.evaluation
+    });
+
+  } catch (error) {
+    console.error("[API] Error evaluating contextual embeddings:", error);
+    return NextResponse.json(
+      { error: "Error interno del servidor al evaluar los embeddings" },
+      { status: 500 }
+    );
+  }
+}
+
+function isEvaluationCase(value: unknown): value is RetrievalEvaluationCase {
+  const candidate = value as RetrievalEvaluationCase | null;
+  return typeof candidate?.query === "string" &&
+    candidate.query.trim().length > 0 &&
+    Array.isArray(candidate.relevantChunkIndexes) &&
+    candidate.relevantChunkIndexes.every(index => Number.isInteger(index));
+}
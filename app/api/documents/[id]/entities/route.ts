@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerClient } from "@supabase/ssr";
+import { cookies } from "next/headers";
+import { getDocumentById, getDocumentClinicalEntities, canUserAccessDocument } from "@/lib/document-storage";
+import { isClinicalEntityType, getClinicalEntityTypeLabel, CLINICAL_ENTITY_TYPE_NAMES } from "@/lib/clinical-entities";
+
+// ============================================
+// GET /api/documents/[id]/entities
+// Entidades clínicas extraídas del documento
+// ============================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await params;
+
+    // 1. Validar filtro por tipo de entidad (?type=medication)
+    const type = request.nextUrl.searchParams.get("type");
+
+    if (type !== null && !isClinicalEntityType(type)) {
+      return NextResponse.json(
+        { error: `Tipo de entidad inválido. Opciones: ${CLINICAL_ENTITY_TYPE_NAMES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    // 2. Obtener el usuario autenticado
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          getAll() {
+            return cookieStore.getAll();
+          },
+          setAll(cookiesToSet) {
+            try {
+              cookiesToSet.forEach(({ name, value, options }) =>
+                cookieStore.set(name, value, options)
+              );
+            } catch {
+              // Ignorar error si se llama desde un Server Component
+            }
+          },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    // 3. Verificar que el documento exista y que el usuario tenga acceso
+    const document = await getDocumentById(documentId);
+
+    if (!document) {
+      return NextResponse.json(
+        { error: "Documento no encontrado" },
+        { status: 404 }
+      );
+    }
+
+    if (document.user_id && !(await canUserAccessDocument(documentId, user.id))) {
+      return NextResponse.json(
+        { error: "No autorizado para ver este documento" },
+        { status: 403 }
+      );
+    }
+
+    // 4. Obtener las entidades
+    const entities = await getDocumentClinicalEntities(documentId, type ?? undefined);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        documentId,
+        entities: entities.map(entity => ({
+          id: entity.id,
+          type: entity.entity_type,
+          typeLabel: getClinicalEntityTypeLabel(entity.entity_type),
+          name: entity.name,
+          attributes: entity.attributes,
+          chunkIndex: entity.chunk_index,
+          pageNumber: entity.page_number
+        })),
+        totalEntities: entities.length,
+        countsByType: Object.fromEntries(
+          CLINICAL_ENTITY_TYPE_NAMES.map(entityType => [
+            entityType,
+            entities.filter(entity => entity.entity_type === entityType).length
+          ])
+        )
+      }
+    });
+
+  } catch (error) {
+    console.error("[API] Error getting clinical entities:", error);
+    return NextResponse.json(
+      { error: "Error interno del servidor al obtener las entidades" },
+      { status: 500 }
+    );
+  }
+}
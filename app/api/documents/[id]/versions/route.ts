@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { createServerClient } from "@supabase/ssr";
+import { cookies } from "next/headers";
+import { getDocumentVersions, canUserAccessDocument } from "@/lib/document-storage";
+
+// ============================================
+// GET /api/documents/[id]/versions
+// Versiones del registro al que pertenece el documento
+// ============================================
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: documentId } = await params;
+
+    // 1. Obtener el usuario autenticado
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          getAll() {
+            return cookieStore.getAll();
+          },
+          setAll(cookiesToSet) {
+            try {
+              cookiesToSet.forEach(({ name, value, options }) =>
+                cookieStore.set(name, value, options)
+              );
+            } catch {
+              // Ignorar error si se llama desde un Server Component
+            }
+          },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    // 2. Obtener las versiones del registro
+    const versions = await getDocumentVersions(documentId);
+
+    if (versions.length === 0) {
+      return NextResponse.json(
+        { error: "Documento no encontrado" },
+        { status: 404 }
+      );
+    }
+
+    const current = versions.find(version => version.id === documentId);
+
+    if (current?.user_id && !(await canUserAccessDocument(documentId, user.id))) {
+      return NextResponse.json(
+        { error: "No autorizado para ver este documento" },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        documentId,
+        recordId: versions[0].record_id,
+        versions: versions.map(version => ({
+          documentId: version.id,
+          version: version.version,
+          filename: version.filename,
+          uploadedAt: version.uploaded_at,
+          totalPages: version.metadata?.totalPages ?? null,
+          totalChunks: version.metadata?.totalChunks ?? null,
+          previousVersionId: version.previous_version_id
+        })),
+        latestVersionId: versions[versions.length - 1].id
+      }
+    });
+
+  } catch (error) {
+    console.error("[API] Error getting document versions:", error);
+    return NextResponse.json(
+      { error: "Error interno del servidor al obtener las versiones" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createServerClient } from "@supabase/ssr";
+import { cookies } from "next/headers";
+import { getIngestionJob, isIngestionJobStale, failStaleIngestionJobs } from "@/lib/ingestion-jobs";
+
+// ============================================
+// GET /api/documents/jobs/[id]
+// Etapa y avance de un trabajo de ingesta
+// ============================================
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: jobId } = await params;
+
+    // 1. Obtener el usuario autenticado
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          getAll() {
+            return cookieStore.getAll();
+          },
+          setAll(cookiesToSet) {
+            try {
+              cookiesToSet.forEach(({ name, value, options }) =>
+                cookieStore.set(name, value, options)
+              );
+            } catch {
+              // Ignorar error si se llama desde un Server Component
+            }
+          },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    // 2. Obtener el trabajo y verificar que pertenezca al usuario
+    let job = await getIngestionJob(jobId);
+
+    if (!job || (job.user_id && job.user_id !== user.id)) {
+      return NextResponse.json(
+        { error: "Trabajo de ingesta no encontrado" },
+        { status: 404 }
+      );
+    }
+
+    // 3. Un trabajo que superó el tiempo máximo sin terminar ya no va a avanzar
+    if (isIngestionJobStale(job)) {
+      const [failed] = await failStaleIngestionJobs(job.id);
+      job = failed ?? job;
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        jobId: job.id,
+        filename: job.filename,
+        stage: job.stage,
+        progress: job.progress,
+        documentId: job.document_id,
+        result: job.stage === "done" ? job.result : null,
+        error: job.stage === "failed" ? job.error : null,
+        createdAt: job.created_at,
+        updatedAt: job.updated_at
+      }
+    });
+
+  } catch (error) {
+    console.error("[API] Error getting ingestion job:", error);
+    return NextResponse.json(
+      { error: "Error interno del servidor al consultar el trabajo" },
+      { status: 500 }
+    );
+  }
+}
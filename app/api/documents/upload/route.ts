@@ -1,12 +1,57 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { createServerClient } from "@supabase/ssr";
 import { cookies } from "next/headers";
-import { processAndEmbedDocument, getDocumentStats } from "@/lib/pdf-processing";
-import { saveDocument, saveChunksWithEmbeddings, uploadFileToStorage } from "@/lib/document-storage";
+import {
+  uploadFileToStorage,
+  deleteFileFromStorage,
+  computeContentHash,
+  findDocumentByContentHash,
+  recordDocumentUpload,
+  canUserAccessDocument
+} from "@/lib/document-storage";
+import { createChatSession } from "@/lib/chat-memory";
+import { isSupportedDocument, resolveMimeType, SUPPORTED_FORMAT_LABELS } from "@/lib/document-loaders";
+import { createIngestionJob, runIngestionJob } from "@/lib/ingestion-jobs";
+import { isContextualEmbeddingEnabled } from "@/lib/contextual-embeddings";
+import { isChunkingStrategy, resolveChunkingConfig, validateChunkingConfig, getChunkingStrategies, CHUNKING_STRATEGY_NAMES, ChunkingStrategyName } from "@/lib/chunking";
 
 export async function POST(request: NextRequest) {
   try {
-    // 1. Obtener el FormData con el archivo
+    // 1. Obtener el usuario autenticado (antes de escribir nada en el storage)
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          getAll() {
+            return cookieStore.getAll();
+          },
+          setAll(cookiesToSet) {
+            try {
+              cookiesToSet.forEach(({ name, value, options }) =>
+                cookieStore.set(name, value, options)
+              );
+            } catch {
+              // Ignorar error si se llama desde un Server Component
+            }
+          },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+    
+    // 2. Obtener el FormData con el archivo
     const formData = await request.formData();
     const file = formData.get("file") as File | null;
     
@@ -17,15 +62,16 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // 2. Validar que sea un PDF
-    if (file.type !== "application/pdf") {
+    // 3. Validar que sea un formato soportado (PDF, DOCX, TXT, HTML o imagen)
+    if (!isSupportedDocument(file.type, file.name)) {
       return NextResponse.json(
-        { error: "El archivo debe ser un PDF" },
+        { error: `Formato no soportado. Formatos aceptados: ${SUPPORTED_FORMAT_LABELS.join(", ")}` },
         { status: 400 }
       );
     }
+    const mimeType = resolveMimeType(file.type, file.name);
     
-    // 3. Validar tamaño (máximo 20MB)
+    // 4. Validar tamaño (máximo 20MB)
     const MAX_SIZE = 20 * 1024 * 1024; // 20MB
     if (file.size > MAX_SIZE) {
       return NextResponse.json(
@@ -34,119 +80,152 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // 4. Convertir File a Buffer
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
-
-    // 4.5. Subir archivo a Supabase Storage
-    const storagePath = await uploadFileToStorage(buffer, file.name);
+    // 4.5. Resolver la estrategia de chunking elegida para esta subida
+    const requestedStrategy = formData.get("chunkingStrategy");
+    let strategy: ChunkingStrategyName | undefined;
     
-    if (!storagePath) {
+    if (typeof requestedStrategy === "string" && requestedStrategy) {
+      if (!isChunkingStrategy(requestedStrategy)) {
+        return NextResponse.json(
+          { error: `Estrategia de chunking inválida. Opciones: ${CHUNKING_STRATEGY_NAMES.join(", ")}` },
+          { status: 400 }
+        );
+      }
+      strategy = requestedStrategy;
+    }
+    
+    const chunkingConfig = resolveChunkingConfig(strategy, {
+      chunkSize: parseOptionalNumber(formData.get("chunkSize")),
+      chunkOverlap: parseOptionalNumber(formData.get("chunkOverlap")),
+      sentenceOverlap: parseOptionalNumber(formData.get("sentenceOverlap")),
+      breakpointPercentile: parseOptionalNumber(formData.get("breakpointPercentile"))
+    });
+    
+    const chunkingError = validateChunkingConfig(chunkingConfig);
+    if (chunkingError) {
       return NextResponse.json(
-        { error: "Error al subir el archivo al almacenamiento" },
-        { status: 500 }
+        { error: `Parámetros de chunking inválidos: ${chunkingError}` },
+        { status: 400 }
       );
     }
     
-    // 5. Procesar el PDF y generar embeddings
-    const result = await processAndEmbedDocument(buffer);
+    // 4.7. Si es una nueva versión de un documento, verificar acceso al anterior
+    const requestedPreviousVersion = formData.get("previousVersionId");
+    const previousVersionId = typeof requestedPreviousVersion === "string" && requestedPreviousVersion
+      ? requestedPreviousVersion
+      : undefined;
     
-    if (!result.success) {
+    if (previousVersionId && !(await canUserAccessDocument(previousVersionId, user.id))) {
       return NextResponse.json(
-        { error: result.error },
-        { status: 422 }
+        { error: "Versión anterior no encontrada" },
+        { status: 404 }
       );
     }
     
-    // 5.5. Obtener el usuario autenticado
-    const cookieStore = await cookies();
-    const supabase = createServerClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
-      {
-        cookies: {
-          getAll() {
-            return cookieStore.getAll();
-          },
-          setAll(cookiesToSet) {
-            try {
-              cookiesToSet.forEach(({ name, value, options }) =>
-                cookieStore.set(name, value, options)
-              );
-            } catch {
-              // Ignorar error si se llama desde un Server Component
-            }
-          },
-        },
-      }
+    // 4.8. Encabezado de contexto en los embeddings (default: CONTEXTUAL_EMBEDDINGS)
+    const requestedContextual = formData.get("contextualEmbeddings");
+    const contextualEmbeddings = isContextualEmbeddingEnabled(
+      typeof requestedContextual === "string" && requestedContextual
+        ? requestedContextual === "true"
+        : undefined
     );
+    
+    // 5. Convertir File a Buffer
+    const arrayBuffer = await file.arrayBuffer();
+    const buffer = Buffer.from(arrayBuffer);
 
-    const {
-      data: { user },
-    } = await supabase.auth.getUser();
-
-    if (!user) {
-      return NextResponse.json(
-        { error: "Usuario no autenticado" },
-        { status: 401 }
-      );
-    }
-    // 6. Guardar documento en Supabase
-    const docResult = await saveDocument({
-      userId: user.id,
-      filename: file.name,
-      metadata: {
-        title: result.metadata.title,
-        author: result.metadata.author,
-        creationDate: result.metadata.creationDate,
-        totalPages: result.totalPages,
-        totalChunks: result.totalChunks,
-        storagePath: storagePath
+    // 5.2. Si el mismo archivo ya fue procesado con las mismas opciones, reutilizar documento y chunks
+    // forceReprocess=true fuerza un procesamiento nuevo; una nueva versión siempre se procesa
+    const contentHash = computeContentHash(buffer);
+    const forceReprocess = formData.get("forceReprocess") === "true";
+    
+    if (!forceReprocess && !previousVersionId) {
+      const existing = await findDocumentByContentHash(contentHash, {
+        chunking: chunkingConfig,
+        contextualEmbeddings
+      });
+      
+      if (existing) {
+        if (!(await recordDocumentUpload(existing.id, user.id))) {
+          return NextResponse.json(
+            { error: "Error al registrar la subida del documento" },
+            { status: 500 }
+          );
+        }
+        
+        const session = await createChatSession(existing.id, user.id, file.name);
+        
+        if (!session.success || !session.sessionId) {
+          return NextResponse.json(
+            { error: session.error || "Error al crear la sesión de chat" },
+            { status: 500 }
+          );
+        }
+        
+        return NextResponse.json({
+          success: true,
+          data: {
+            duplicate: true,
+            documentId: existing.id,
+            sessionId: session.sessionId,
+            filename: existing.filename,
+            totalPages: existing.metadata?.totalPages ?? 0,
+            totalChunks: existing.metadata?.totalChunks ?? 0,
+            uploadedAt: existing.uploaded_at
+          }
+        });
       }
-    });
+    }
+
+    // 5.5. Subir archivo a Supabase Storage
+    const storagePath = await uploadFileToStorage(buffer, file.name, mimeType);
     
-    if (!docResult.success || !docResult.documentId) {
+    if (!storagePath) {
       return NextResponse.json(
-        { error: docResult.error || "Error al guardar documento" },
+        { error: "Error al subir el archivo al almacenamiento" },
         { status: 500 }
       );
     }
     
-    // 7. Guardar chunks con embeddings
-    const chunksResult = await saveChunksWithEmbeddings(
-      docResult.documentId,
-      result.chunks
-    );
+    // 6. Registrar el trabajo de ingesta
+    const jobResult = await createIngestionJob({
+      filename: file.name,
+      mimeType,
+      userId: user.id,
+      storagePath,
+      chunking: chunkingConfig,
+      contentHash,
+      previousVersionId,
+      contextualEmbeddings
+    });
     
-    if (!chunksResult.success) {
+    if (!jobResult.success || !jobResult.jobId) {
+      // Sin trabajo nadie va a procesar el archivo: se deshace la subida
+      await deleteFileFromStorage(storagePath);
       return NextResponse.json(
-        { error: chunksResult.error || "Error al guardar chunks" },
+        { error: jobResult.error || "Error al crear el trabajo de ingesta" },
         { status: 500 }
       );
     }
     
-    // 8. Obtener estadísticas
-    const stats = {
-      averageChunkSize: result.chunks.length > 0
-        ? Math.round(result.chunks.reduce((sum, c) => sum + c.content.length, 0) / result.chunks.length)
-        : 0,
-      totalCharacters: result.chunks.reduce((sum, c) => sum + c.content.length, 0),
-      embeddingDimensions: result.embeddingDimensions
-    };
-    
-    // 9. Retornar resultado exitoso
-    return NextResponse.json({
-      success: true,
-      data: {
-        documentId: docResult.documentId,
-        filename: file.name,
-        totalPages: result.totalPages,
-        totalChunks: result.totalChunks,
-        savedChunks: chunksResult.savedCount,
-        metadata: result.metadata,
-        stats: stats
-      }
-    });
+    // 7. Procesar en segundo plano, después de responder
+    // Extracción, chunking, embeddings y guardado (ver lib/ingestion-jobs)
+    const jobId = jobResult.jobId;
+    after(() => runIngestionJob(jobId, buffer));
+    
+    // 8. Retornar el ID del trabajo para consultar su avance
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          jobId,
+          filename: file.name,
+          stage: "queued",
+          statusUrl: `/api/documents/jobs/${jobId}`
+        }
+      },
+      { status: 202 }
+    );
     
   } catch (error) {
     console.error("[API] Error uploading document:", error);
@@ -157,5 +236,39 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Configurar tiempo máximo para procesamiento de PDFs grandes
-export const maxDuration = 60; // 60 segundos
+// ============================================
+// GET /api/documents/upload - Información del endpoint
+// ============================================
+
+export async function GET() {
+  return NextResponse.json({
+    endpoint: "/api/documents/upload",
+    method: "POST",
+    description: "Sube un legajo médico y encola su procesamiento (chunks y embeddings). Responde con el ID del trabajo; el avance se consulta en /api/documents/jobs/[id]. Si el archivo ya fue procesado, reutiliza el documento existente y abre una sesión nueva",
+    body: {
+      file: `File (requerido) - ${SUPPORTED_FORMAT_LABELS.join(", ")} de hasta 20MB`,
+      chunkingStrategy: `string (opcional, default: section-aware) - ${CHUNKING_STRATEGY_NAMES.join(" | ")}`,
+      chunkSize: "number (opcional) - Tamaño máximo del chunk en tokens",
+      chunkOverlap: "number (opcional) - Superposición entre chunks en tokens (menor que chunkSize)",
+      sentenceOverlap: "number (opcional) - Oraciones compartidas (sentence-window)",
+      breakpointPercentile: "number (opcional) - Percentil de corte por similitud, 0 a 100 (semantic)",
+      previousVersionId: "string (opcional) - ID de un documento del mismo registro; el archivo se guarda como su versión siguiente",
+      forceReprocess: "boolean (opcional, default: false) - Procesa el archivo aunque ya exista un documento con el mismo contenido",
+      contextualEmbeddings: "boolean (opcional, default: CONTEXTUAL_EMBEDDINGS) - Vectoriza cada chunk con título, tipo, sección y fecha del documento"
+    },
+    strategies: getChunkingStrategies()
+  });
+}
+
+/**
+ * Convierte un campo opcional del FormData en número
+ * Retorna undefined si está vacío; un valor que no es número queda NaN y lo rechaza validateChunkingConfig
+ */
+function parseOptionalNumber(value: FormDataEntryValue | null): number | undefined {
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+  return Number(value);
+}
+
+// Configurar tiempo máximo para procesamiento de documentos grandes
+// Incluye el trabajo que corre con after() después de responder
+export const maxDuration = 300; // 5 minutos
@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { createServerClient } from "@supabase/ssr";
+import { cookies } from "next/headers";
+import { getEmbeddingCacheStats } from "@/lib/embedding-cache";
+
+// ============================================
+// GET /api/embeddings/cache
+// Aciertos y fallos del cache de embeddings de esta instancia
+// Para vaciarlo: DELETE /api/cron/embedding-cache
+// ============================================
+
+export async function GET() {
+  try {
+    // 1. Obtener el usuario autenticado
+    const cookieStore = await cookies();
+    const supabase = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+      {
+        cookies: {
+          getAll() {
+            return cookieStore.getAll();
+          },
+          setAll(cookiesToSet) {
+            try {
+              cookiesToSet.forEach(({ name, value, options }) =>
+                cookieStore.set(name, value, options)
+              );
+            } catch {
+              // Ignorar error si se llama desde un Server Component
+            }
+          },
+        },
+      }
+    );
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json(
+        { error: "Usuario no autenticado" },
+        { status: 401 }
+      );
+    }
+
+    // 2. Estadísticas del cache
+    return NextResponse.json({
+      success: true,
+      data: getEmbeddingCacheStats()
+    });
+
+  } catch (error) {
+    console.error("[API] Error getting embedding cache stats:", error);
+    return NextResponse.json(
+      { error: "Error interno del servidor al obtener las estadísticas del cache" },
+      { status: 500 }
+    );
+  }
+}
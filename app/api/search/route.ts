@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { semanticSearch, searchDocumentChunks, formatChunksAsContext } from "@/lib/retrieval";
+import { semanticSearch, searchDocumentChunks, formatChunksAsContext, formatChunkLocation } from "@/lib/retrieval";
+import { isDocumentType, DOCUMENT_TYPE_NAMES } from "@/lib/document-classification";
 
 // ============================================
 // POST /api/search
@@ -11,6 +12,7 @@ interface SearchRequest {
   documentId?: string;
   topK?: number;
   threshold?: number;
+  documentType?: string;
   format?: "raw" | "context";
 }
 
@@ -34,10 +36,19 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Validar filtro por tipo documental
+    if (body.documentType !== undefined && !isDocumentType(body.documentType)) {
+      return NextResponse.json(
+        { error: `Tipo documental inválido. Opciones: ${DOCUMENT_TYPE_NAMES.join(", ")}` },
+        { status: 400 }
+      );
+    }
+    
     // Configuración de búsqueda
     const config = {
       topK: Math.min(body.topK || 5, 20), // Máximo 20 resultados
-      threshold: Math.max(0, Math.min(body.threshold || 0.7, 1)) // Entre 0 y 1
+      threshold: Math.max(0, Math.min(body.threshold || 0.7, 1)), // Entre 0 y 1
+      documentType: body.documentType
     };
     
     // Ejecutar búsqueda
@@ -67,13 +78,22 @@ export async function POST(request: NextRequest) {
           id: chunk.id,
           content: chunk.content,
           similarity: chunk.similarity,
-          similarityPercent: `${(chunk.similarity * 100).toFixed(1)}%`
+          similarityPercent: `${(chunk.similarity * 100).toFixed(1)}%`,
+          pageNumber: chunk.pageNumber,
+          endPageNumber: chunk.endPageNumber,
+          charStart: chunk.charStart,
+          charEnd: chunk.charEnd,
+          boundingBoxes: chunk.boundingBoxes,
+          section: chunk.metadata?.section ?? null,
+          documentType: chunk.metadata?.documentType ?? null,
+          location: formatChunkLocation(chunk)
         })),
         totalResults: results.length,
         config: {
           topK: config.topK,
           threshold: config.threshold,
-          documentId: body.documentId || null
+          documentId: body.documentId || null,
+          documentType: config.documentType || null
         }
       }
     });
@@ -118,6 +138,7 @@ export async function GET() {
       documentId: "string (opcional) - ID del documento donde buscar",
       topK: "number (opcional, default: 5) - Número de resultados",
       threshold: "number (opcional, default: 0.7) - Similitud mínima (0-1)",
+      documentType: `string (opcional) - Filtra por tipo documental: ${DOCUMENT_TYPE_NAMES.join(" | ")}`,
       format: "'raw' | 'context' (opcional, default: 'raw') - Formato de respuesta"
     },
     examples: {
@@ -1,29 +1,64 @@
 "use client";
 
-import { FileText } from "lucide-react";
+import { useEffect, useState } from "react";
+import { FileText, GitCompare } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { DocumentVersionDiff, DocumentVersionDiffData } from "./document-version-diff";
 
 interface ViewMedicalFileProps {
 	fileUrl: string;
 	fileName?: string;
+	documentId?: string;
 }
 
-export default function ViewMedicalFile({ fileUrl, fileName }: ViewMedicalFileProps) {
+export default function ViewMedicalFile({ fileUrl, fileName, documentId }: ViewMedicalFileProps) {
+	// Diff and toggle are keyed by document so they reset when another document is opened
+	const [loadedDiff, setLoadedDiff] = useState<{ documentId: string; diff: DocumentVersionDiffData } | null>(null);
+	const [diffShownFor, setDiffShownFor] = useState<string | null>(null);
+	const diff = loadedDiff && loadedDiff.documentId === documentId ? loadedDiff.diff : null;
+	const showDiff = !!documentId && diffShownFor === documentId;
+
+	// Load the changes against the previous version (only versioned documents have one)
+	useEffect(() => {
+		if (!documentId) return;
+
+		fetch(`/api/documents/${documentId}/diff`)
+			.then((res) => (res.ok ? res.json() : null))
+			.then((data) => data?.data && setLoadedDiff({ documentId, diff: data.data }))
+			.catch((err) => console.error("Error loading version diff:", err));
+	}, [documentId]);
+
 	return (
 		<Card className="flex flex-col border-slate-800 bg-slate-900/50 backdrop-blur-sm overflow-hidden">
 			<CardHeader className="pb-2 shrink-0">
 				<CardTitle className="flex items-center gap-2 text-xl text-slate-100">
 					<FileText className="h-5 w-5 text-emerald-500" />
 					{fileName || "Documento Médico"}
+					{diff && (
+						<Button
+							variant="outline"
+							size="sm"
+							onClick={() => setDiffShownFor(showDiff ? null : documentId ?? null)}
+							className="ml-auto border-slate-700 text-slate-400 hover:border-emerald-500/50 hover:text-emerald-400"
+						>
+							<GitCompare className="h-4 w-4" />
+							{showDiff ? "Ver documento" : `Cambios desde v${diff.base.version}`}
+						</Button>
+					)}
 				</CardTitle>
 			</CardHeader>
 			<CardContent className="flex-1 p-2 min-h-0">
-				<iframe
-					src={`${fileUrl}#toolbar=0&navpanes=0&scrollbar=0`}
-					className="h-full w-full rounded-lg border border-slate-700"
-					title="PDF Viewer"
-				/>
+				{showDiff && diff ? (
+					<DocumentVersionDiff diff={diff} />
+				) : (
+					<iframe
+						src={`${fileUrl}#toolbar=0&navpanes=0&scrollbar=0`}
+						className="h-full w-full rounded-lg border border-slate-700"
+						title="PDF Viewer"
+					/>
+				)}
 			</CardContent>
 		</Card>
 	);
-}
\ No newline at end of file
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { ScrollArea } from "@/components/ui/scroll-area";
+
+type VersionChangeStatus = "added" | "removed" | "changed" | "unchanged";
+
+interface VersionChunkRef {
+	chunkIndex: number;
+	pageNumber: number | null;
+	content: string;
+}
+
+interface ChunkDiff {
+	status: Exclude<VersionChangeStatus, "unchanged">;
+	section: string;
+	base: VersionChunkRef | null;
+	target: VersionChunkRef | null;
+	similarity: number | null;
+}
+
+interface SectionDiff {
+	section: string;
+	status: VersionChangeStatus;
+	addedChunks: number;
+	removedChunks: number;
+	changedChunks: number;
+}
+
+export interface DocumentVersionDiffData {
+	base: { documentId: string; version: number; filename: string; uploadedAt: string };
+	target: { documentId: string; version: number; filename: string; uploadedAt: string };
+	sections: SectionDiff[];
+	chunks: ChunkDiff[];
+	stats: { added: number; removed: number; changed: number; unchanged: number };
+}
+
+interface DocumentVersionDiffProps {
+	diff: DocumentVersionDiffData;
+}
+
+const STATUS_LABELS: Record<VersionChangeStatus, string> = {
+	added: "Agregado",
+	removed: "Eliminado",
+	changed: "Modificado",
+	unchanged: "Sin cambios",
+};
+
+const STATUS_STYLES: Record<VersionChangeStatus, string> = {
+	added: "border-emerald-500/40 bg-emerald-500/10 text-emerald-400",
+	removed: "border-red-500/40 bg-red-500/10 text-red-400",
+	changed: "border-amber-500/40 bg-amber-500/10 text-amber-400",
+	unchanged: "border-slate-700 bg-slate-800 text-slate-400",
+};
+
+/**
+ * Shows which sections and chunks were added, removed or changed between two versions
+ */
+export function DocumentVersionDiff({ diff }: DocumentVersionDiffProps) {
+	return (
+		<ScrollArea className="h-full rounded-lg border border-slate-700 p-3">
+			<div className="space-y-4 text-sm">
+				<p className="text-slate-400">
+					Versión {diff.base.version} ({diff.base.uploadedAt.slice(0, 10)}) → versión {diff.target.version} (
+					{diff.target.uploadedAt.slice(0, 10)})
+				</p>
+
+				<div className="flex flex-wrap gap-2 text-xs">
+					<span className={`rounded-full border px-2 py-1 ${STATUS_STYLES.added}`}>{diff.stats.added} agregados</span>
+					<span className={`rounded-full border px-2 py-1 ${STATUS_STYLES.removed}`}>{diff.stats.removed} eliminados</span>
+					<span className={`rounded-full border px-2 py-1 ${STATUS_STYLES.changed}`}>{diff.stats.changed} modificados</span>
+					<span className={`rounded-full border px-2 py-1 ${STATUS_STYLES.unchanged}`}>{diff.stats.unchanged} sin cambios</span>
+				</div>
+
+				{/* Sections */}
+				<div className="space-y-1">
+					<h4 className="font-semibold text-slate-200">Secciones</h4>
+					{diff.sections.map((section) => (
+						<div key={section.section} className="flex items-center justify-between gap-2">
+							<span className="text-slate-300">{section.section}</span>
+							<span className={`rounded-full border px-2 py-0.5 text-xs ${STATUS_STYLES[section.status]}`}>
+								{STATUS_LABELS[section.status]}
+							</span>
+						</div>
+					))}
+				</div>
+
+				{/* Chunks */}
+				<div className="space-y-2">
+					<h4 className="font-semibold text-slate-200">Fragmentos</h4>
+					{diff.chunks.length === 0 && <p className="text-slate-400">No hay diferencias en el contenido.</p>}
+					{diff.chunks.map((change, index) => (
+						<div key={index} className={`rounded-lg border p-2 ${STATUS_STYLES[change.status]}`}>
+							<div className="mb-1 text-xs font-medium">
+								{STATUS_LABELS[change.status]} · {change.section}
+								{change.target?.pageNumber ? ` · p. ${change.target.pageNumber}` : ""}
+							</div>
+							{change.base && (
+								<p className={`whitespace-pre-wrap text-xs ${change.status === "changed" ? "text-slate-500 line-through" : "text-slate-300"}`}>
+									{change.base.content}
+								</p>
+							)}
+							{change.target && (
+								<p className="mt-1 whitespace-pre-wrap text-xs text-slate-200">{change.target.content}</p>
+							)}
+						</div>
+					))}
+				</div>
+			</div>
+		</ScrollArea>
+	);
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { useDropzone } from "react-dropzone";
 import { useRouter } from "next/navigation";
 import { Upload, CheckCircle2, AlertCircle } from "lucide-react";
@@ -10,7 +10,9 @@ import { Button } from "@/components/ui/button";
 interface ProcessedChunk {
 	content: string;
 	pageNumber: number;
+	endPageNumber: number;
 	chunkIndex: number;
+	tokenCount: number;
 	metadata: {
 		documentType: string;
 		processedAt: string;
@@ -19,6 +21,8 @@ interface ProcessedChunk {
 
 interface ProcessingResult {
 	documentId: string; // [NEW] Added documentId
+	duplicate?: boolean; // Same file was already processed: existing document reused
+	sessionId?: string; // Chat session opened for a reused document
 	filename: string;
 	totalPages: number;
 	totalChunks: number;
@@ -43,78 +47,147 @@ interface MedicalFileUploadProps {
 
 type UploadStatus = "idle" | "uploading" | "processing" | "success" | "error";
 
+type IngestionStage = "queued" | "extracting" | "chunking" | "embedding" | "storing" | "done" | "failed";
+
+interface IngestionJobStatus {
+	jobId: string;
+	stage: IngestionStage;
+	progress: number;
+	result: ProcessingResult | null;
+	error: string | null;
+}
+
+const STAGE_LABELS: Record<IngestionStage, string> = {
+	queued: "En cola...",
+	extracting: "Extrayendo texto...",
+	chunking: "Dividiendo en fragmentos...",
+	embedding: "Generando embeddings...",
+	storing: "Guardando documento...",
+	done: "Documento procesado",
+	failed: "Error al procesar",
+};
+
+const JOB_POLL_INTERVAL_MS = 1000;
+// The server gives up on a job after maxDuration (300 s); stop polling a bit later
+const JOB_POLL_TIMEOUT_MS = 360_000;
+
+/**
+ * Polls the ingestion job status until it is done or failed
+ * Gives up after JOB_POLL_TIMEOUT_MS; the signal stops polling (e.g. on unmount)
+ */
+async function waitForIngestionJob(
+	jobId: string,
+	onUpdate: (job: IngestionJobStatus) => void,
+	signal: AbortSignal
+): Promise<ProcessingResult> {
+	const deadline = Date.now() + JOB_POLL_TIMEOUT_MS;
+
+	while (Date.now() < deadline) {
+		const response = await fetch(`/api/documents/jobs/${jobId}`, { signal });
+		const data = await response.json();
+
+		if (!response.ok) {
+			throw new Error(data.error || "Error al consultar el procesamiento");
+		}
+
+		const job = data.data as IngestionJobStatus;
+		onUpdate(job);
+
+		if (job.stage === "done" && job.result) {
+			return job.result;
+		}
+		if (job.stage === "failed") {
+			throw new Error(job.error || "Error al procesar el documento");
+		}
+
+		// Wait for the next poll; the abort listener is removed each round so they don't pile up
+		signal.throwIfAborted();
+		await new Promise<void>((resolve, reject) => {
+			const onAbort = () => {
+				clearTimeout(timer);
+				reject(signal.reason);
+			};
+			const timer = setTimeout(() => {
+				signal.removeEventListener("abort", onAbort);
+				resolve();
+			}, JOB_POLL_INTERVAL_MS);
+			signal.addEventListener("abort", onAbort, { once: true });
+		});
+	}
+
+	throw new Error("El procesamiento está tardando demasiado. Revisá el documento más tarde.");
+}
+
 export function MedicalFileUpload({ onFileUploaded, onProcessingComplete }: MedicalFileUploadProps) {
 	const router = useRouter();
 	const [status, setStatus] = useState<UploadStatus>("idle");
 	const [progress, setProgress] = useState(0);
+	const [stage, setStage] = useState<IngestionStage>("queued");
 	const [uploadedFile, setUploadedFile] = useState<File | null>(null);
 	const [processingResult, setProcessingResult] = useState<ProcessingResult | null>(null);
 	const [errorMessage, setErrorMessage] = useState<string | null>(null);
+	const pollingRef = useRef<AbortController | null>(null);
+
+	// Stop polling when the component unmounts
+	useEffect(() => () => pollingRef.current?.abort(), []);
 
 	const onDrop = useCallback(async (acceptedFiles: File[]) => {
 		if (acceptedFiles.length > 0) {
 			const file = acceptedFiles[0];
+			pollingRef.current?.abort();
+			const polling = new AbortController();
+			pollingRef.current = polling;
 			setStatus("uploading");
 			setProgress(0);
+			setStage("queued");
 			setErrorMessage(null);
 
 			try {
-				// Simulate initial upload progress (0-30%)
-				const uploadInterval = setInterval(() => {
-					setProgress((prev) => {
-						if (prev >= 30) {
-							clearInterval(uploadInterval);
-							return 30;
-						}
-						return prev + 5;
-					});
-				}, 100);
-
 				// Create FormData and send to API
 				const formData = new FormData();
 				formData.append("file", file);
 
-				setStatus("processing");
-				clearInterval(uploadInterval);
-				setProgress(35);
-
 				const response = await fetch("/api/documents/upload", {
 					method: "POST",
 					body: formData,
 				});
 
-				// Simulate processing progress (35-90%)
-				const processingInterval = setInterval(() => {
-					setProgress((prev) => {
-						if (prev >= 90) {
-							clearInterval(processingInterval);
-							return 90;
-						}
-						return prev + 10;
-					});
-				}, 200);
-
 				const data = await response.json();
-				clearInterval(processingInterval);
 
 				if (!response.ok) {
 					throw new Error(data.error || "Error al procesar el documento");
 				}
 
+				// A file that was already processed comes back right away with the existing document;
+				// otherwise the upload returns a job ID: poll its real progress until it finishes
+				let result: ProcessingResult;
+				if (data.data.duplicate) {
+					result = data.data as ProcessingResult;
+				} else {
+					setStatus("processing");
+					result = await waitForIngestionJob(data.data.jobId, (job) => {
+						setProgress(job.progress);
+						setStage(job.stage);
+					}, polling.signal);
+				}
+
 				setProgress(100);
 				setStatus("success");
 				setUploadedFile(file);
-				setProcessingResult(data.data);
+				setProcessingResult(result);
 
 				// Callbacks
 				const url = URL.createObjectURL(file);
 				onFileUploaded?.(file, url);
-				onProcessingComplete?.(data.data);
+				onProcessingComplete?.(result);
 
 				// Refresh the UI to update the sidebar
 				router.refresh();
 
 			} catch (error) {
+				// Unmounted or replaced by a newer upload: nothing to show
+				if (polling.signal.aborted) return;
+
 				console.error("Error processing file:", error);
 				setStatus("error");
 				setErrorMessage(error instanceof Error ? error.message : "Error desconocido");
@@ -126,6 +199,11 @@ export function MedicalFileUpload({ onFileUploaded, onProcessingComplete }: Medi
 		onDrop,
 		accept: {
 			'application/pdf': ['.pdf'],
+			'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+			'text/plain': ['.txt'],
+			'text/html': ['.html', '.htm'],
+			'image/png': ['.png'],
+			'image/jpeg': ['.jpg', '.jpeg'],
 		},
 		multiple: false
 	});
@@ -180,7 +258,7 @@ export function MedicalFileUpload({ onFileUploaded, onProcessingComplete }: Medi
 								</div>
 							</div>
 							<p className="animate-pulse text-sm text-emerald-400">
-								{status === "uploading" ? "Subiendo archivo..." : "Procesando documento..."}
+								{status === "uploading" ? "Subiendo archivo..." : STAGE_LABELS[stage]}
 							</p>
 						</div>
 					) : status === "error" ? (
@@ -211,7 +289,7 @@ export function MedicalFileUpload({ onFileUploaded, onProcessingComplete }: Medi
 							</div>
 							<div className="space-y-1">
 								<h3 className="text-lg font-semibold text-emerald-400">
-									¡Documento procesado!
+									{processingResult?.duplicate ? "¡Documento ya procesado!" : "¡Documento procesado!"}
 								</h3>
 								<p className="max-w-[200px] truncate text-sm text-slate-400">
 									{uploadedFile.name}
@@ -249,7 +327,7 @@ export function MedicalFileUpload({ onFileUploaded, onProcessingComplete }: Medi
 								</p>
 							</div>
 							<p className="text-xs text-slate-500">
-								Formatos soportados: PDF
+								Formatos soportados: PDF, DOCX, TXT, HTML, PNG, JPG
 							</p>
 							<Button variant="outline" className="mt-4 border-emerald-500/50 text-emerald-400 hover:bg-emerald-500/10 hover:text-emerald-300">
 								Seleccionar archivo
@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import { stripBoilerplate } from "../boilerplate";
+import type { PageText } from "../document-loaders";
+
+function pages(build: (index: number) => string[], count = 3): PageText[] {
+  return Array.from({ length: count }, (_, index) => ({
+    pageNumber: index + 1,
+    text: build(index).join("\n"),
+    source: "text" as const
+  }));
+}
+
+describe("stripBoilerplate", () => {
+  it("quita el membrete repetido y la numeración de página", () => {
+    const { pages: cleaned, boilerplate } = stripBoilerplate(pages(index => [
+      "HOSPITAL CENTRAL",
+      "Servicio de Clínica Médica",
+      `Evolución del día ${index + 1}: paciente estable.`,
+      `Página ${index + 1} de 3`
+    ]));
+
+    expect(cleaned.map(page => page.text)).toEqual([
+      "Evolución del día 1: paciente estable.",
+      "Evolución del día 2: paciente estable.",
+      "Evolución del día 3: paciente estable."
+    ]);
+    expect(boilerplate.header).toEqual(["HOSPITAL CENTRAL", "Servicio de Clínica Médica"]);
+  });
+
+  it("solo mira las dos primeras y las dos últimas líneas", () => {
+    const { pages: cleaned } = stripBoilerplate(pages(() => [
+      "HOSPITAL CENTRAL",
+      "Servicio de Clínica Médica",
+      "Control de signos vitales",
+      "Sin intercurrencias.",
+      "Se continúa igual esquema.",
+      "Firma y sello"
+    ]));
+
+    expect(cleaned[0].text).toContain("Control de signos vitales");
+    expect(cleaned[0].text).not.toContain("HOSPITAL CENTRAL");
+  });
+
+  it("conserva líneas clínicas que solo coinciden ignorando los números", () => {
+    const { pages: cleaned } = stripBoilerplate(pages(index => [
+      "HOSPITAL CENTRAL",
+      `Presión arterial 12${index}/80 mmHg`,
+      "Paciente en sala general."
+    ]));
+
+    cleaned.forEach((page, index) => {
+      expect(page.text).toContain(`Presión arterial 12${index}/80 mmHg`);
+    });
+  });
+
+  it("quita un número solo si sigue la numeración de las páginas", () => {
+    const numbered = stripBoilerplate(pages(index => [
+      "Informe de laboratorio",
+      "Resultados adjuntos.",
+      String(index + 1)
+    ]));
+    const values = stripBoilerplate(pages(() => [
+      "Plaquetas",
+      "250000",
+      "Valores dentro de rango."
+    ]));
+
+    expect(numbered.pages.every(page => !/^\d+$/m.test(page.text))).toBe(true);
+    expect(values.pages.every(page => page.text.includes("250000"))).toBe(true);
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../supabase", () => ({ supabaseAdmin: {} }));
+
+// Vector por tema: las oraciones de un mismo tema son idénticas, las de otro son ortogonales
+const TOPIC_VECTORS: Record<string, number[]> = {
+  fiebre: [1, 0, 0],
+  fractura: [0, 1, 0],
+  dieta: [0, 0, 1]
+};
+
+vi.mock("../embeddings", async (importOriginal) => ({
+  cosineSimilarity: (await importOriginal<typeof import("../embeddings")>()).cosineSimilarity,
+  embedBatch: vi.fn(async (texts: string[]) => ({
+    embeddings: texts.map(text => {
+      const topic = Object.keys(TOPIC_VECTORS).find(name => text.toLowerCase().includes(name));
+      return { text, embedding: topic ? TOPIC_VECTORS[topic] : [1, 1, 1] };
+    }),
+    cache: { hits: 0, misses: texts.length }
+  }))
+}));
+
+import { splitIntoChunks, resolveChunkingConfig, validateChunkingConfig, isSameChunkingConfig } from "../chunking";
+import { embedBatch } from "../embeddings";
+import type { PageText } from "../document-loaders";
+
+function page(text: string, pageNumber = 1): PageText {
+  return { pageNumber, text, source: "text" };
+}
+
+describe("section-aware", () => {
+  it("no mezcla secciones clínicas en un mismo chunk", async () => {
+    const chunks = await splitIntoChunks([page([
+      "ANTECEDENTES",
+      "Hipertensión arterial en tratamiento con enalapril desde hace diez años.",
+      "",
+      "EVOLUCIÓN",
+      "Evolución favorable, afebril, sin requerimiento de oxígeno suplementario."
+    ].join("\n"))], resolveChunkingConfig("section-aware"));
+
+    expect(chunks.map(chunk => chunk.section)).toEqual(["Antecedentes", "Evolución"]);
+  });
+
+  it("no toma una oración como encabezado", async () => {
+    const chunks = await splitIntoChunks([page([
+      "EVOLUCIÓN",
+      "Paciente estable durante la noche, sin cambios en la medicación habitual.",
+      "",
+      "Tratamiento antibiótico endovenoso",
+      "Se completa el esquema de siete días con buena tolerancia y sin efectos adversos."
+    ].join("\n"))], resolveChunkingConfig("section-aware"));
+
+    expect(chunks.every(chunk => chunk.section === "Evolución")).toBe(true);
+  });
+
+  it("acota el overlap para que ningún chunk supere chunkSize", async () => {
+    const paragraph = (index: number) =>
+      `Control número ${index}: paciente lúcido, hemodinámicamente estable, tolera la vía oral y deambula sin asistencia.`;
+    const text = Array.from({ length: 8 }, (_, index) => paragraph(index + 1)).join("\n\n");
+    const config = resolveChunkingConfig("section-aware", { chunkSize: 40, chunkOverlap: 30 });
+
+    const chunks = await splitIntoChunks([page(text)], config);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.tokenCount <= config.chunkSize)).toBe(true);
+  });
+
+  it("corta por tokens una oración más larga que chunkSize", async () => {
+    const labLine = Array.from({ length: 30 }, (_, index) => `Analito${index + 1} ${index + 10},5 mg/dL`).join(" ");
+    const config = resolveChunkingConfig("section-aware", { chunkSize: 40, chunkOverlap: 10 });
+
+    const chunks = await splitIntoChunks([page(`LABORATORIO\n${labLine}`)], config);
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every(chunk => chunk.tokenCount <= config.chunkSize)).toBe(true);
+    expect(chunks.map(chunk => chunk.content).join(" ")).toContain("Analito30 39,5 mg/dL");
+  });
+});
+
+describe("semantic", () => {
+  beforeEach(() => {
+    vi.mocked(embedBatch).mockClear();
+  });
+
+  const sentence = (topic: string, detail: string) =>
+    `El paciente consulta por ${topic} y se registra ${detail} en la historia clínica.`;
+
+  it("corta donde cae la similitud aunque haya pocas oraciones", async () => {
+    const text = [
+      sentence("fiebre", "temperatura de 38,5 grados"),
+      sentence("fiebre", "escalofríos nocturnos"),
+      sentence("fractura", "dolor en la muñeca izquierda"),
+      sentence("fractura", "la radiografía de control")
+    ].join(" ");
+
+    const chunks = await splitIntoChunks([page(text)], resolveChunkingConfig("semantic"));
+
+    expect(embedBatch).toHaveBeenCalledTimes(1);
+    expect(chunks).toHaveLength(2);
+    expect(chunks[0].content).toContain("escalofríos");
+    expect(chunks[1].content).toContain("muñeca");
+  });
+
+  it("no corta si todas las oraciones son igual de similares", async () => {
+    const text = [
+      sentence("dieta", "plan hiposódico"),
+      sentence("dieta", "control de peso semanal"),
+      sentence("dieta", "ingesta de líquidos")
+    ].join(" ");
+
+    const chunks = await splitIntoChunks([page(text)], resolveChunkingConfig("semantic"));
+
+    expect(chunks).toHaveLength(1);
+  });
+});
+
+describe("validateChunkingConfig", () => {
+  it("acepta los valores por defecto de cada estrategia", () => {
+    for (const strategy of ["fixed-size", "sentence-window", "section-aware", "semantic"] as const) {
+      expect(validateChunkingConfig(resolveChunkingConfig(strategy))).toBeNull();
+    }
+  });
+
+  it("rechaza tamaños degenerados y parámetros fuera de rango", () => {
+    expect(validateChunkingConfig(resolveChunkingConfig("fixed-size", { chunkSize: 0 }))).toMatch(/chunkSize/);
+    expect(validateChunkingConfig(resolveChunkingConfig("fixed-size", { chunkSize: 100000 }))).toMatch(/chunkSize/);
+    expect(validateChunkingConfig(resolveChunkingConfig("fixed-size", { chunkSize: NaN }))).toMatch(/chunkSize/);
+    expect(validateChunkingConfig(resolveChunkingConfig("section-aware", { chunkSize: 200, chunkOverlap: 200 }))).toMatch(/chunkOverlap/);
+    expect(validateChunkingConfig(resolveChunkingConfig("semantic", { breakpointPercentile: 150 }))).toMatch(/breakpointPercentile/);
+    expect(validateChunkingConfig(resolveChunkingConfig("sentence-window", { sentenceOverlap: -1 }))).toMatch(/sentenceOverlap/);
+  });
+
+  it("rechaza parámetros de otra estrategia", () => {
+    expect(validateChunkingConfig(resolveChunkingConfig("fixed-size", { breakpointPercentile: 10 }))).toMatch(/no aplica/);
+  });
+});
+
+describe("isSameChunkingConfig", () => {
+  it("compara los parámetros resueltos de la estrategia", () => {
+    const requested = resolveChunkingConfig("section-aware");
+
+    expect(isSameChunkingConfig({ ...requested }, requested)).toBe(true);
+    expect(isSameChunkingConfig(undefined, requested)).toBe(true);
+    expect(isSameChunkingConfig({ ...requested, chunkSize: 500 }, requested)).toBe(false);
+    expect(isSameChunkingConfig(resolveChunkingConfig("semantic"), requested)).toBe(false);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect } from "vitest";
+import { extractLabResults } from "../lab-results";
+import type { PageText } from "../document-loaders";
+
+function page(text: string, pageNumber = 1): PageText {
+  return { pageNumber, text, source: "text" };
+}
+
+const HEMOGRAM = [
+  "Hemoglobina 11,2 g/dL 12 - 16",
+  "Leucocitos 12.500 /mm3 4.000 - 10.000",
+  "Plaquetas 250.000 /mm3 150.000 - 450.000"
+].join("\n");
+
+describe("extractLabResults", () => {
+  it("extrae las filas de una tabla con valor, unidad, rango y flag", () => {
+    const results = extractLabResults([page(`Fecha de toma de muestra: 12/03/2026\n${HEMOGRAM}`)]);
+
+    expect(results).toHaveLength(3);
+    expect(results[0]).toMatchObject({
+      analyte: "Hemoglobina",
+      numericValue: 11.2,
+      unit: "g/dL",
+      referenceRange: "12 - 16",
+      flag: "low",
+      sampleDate: "2026-03-12",
+      rowIndex: 0
+    });
+    expect(results[1]).toMatchObject({ analyte: "Leucocitos", numericValue: 12500, flag: "high" });
+    expect(results[2]).toMatchObject({ analyte: "Plaquetas", numericValue: 250000, flag: "normal" });
+  });
+
+  it("ignora datos sueltos que no forman una tabla", () => {
+    const results = extractLabResults([page("Paciente de 45 años\nEdad 45\nPeso 70 kg")]);
+
+    expect(results).toEqual([]);
+  });
+
+  it("descarta fechas imposibles en lugar de guardarlas", () => {
+    const results = extractLabResults([page(`Fecha de toma de muestra: 31/02/2026\n${HEMOGRAM}`)]);
+
+    expect(results).toHaveLength(3);
+    expect(results.every(result => result.sampleDate === null)).toBe(true);
+  });
+
+  it("acepta años de dos dígitos y el 29 de febrero de un año bisiesto", () => {
+    const [short] = extractLabResults([page(`Extracción: 05-01-26\n${HEMOGRAM}`)]);
+    const [leap] = extractLabResults([page(`Fecha de toma de muestra: 29/02/2024\n${HEMOGRAM}`)]);
+
+    expect(short.sampleDate).toBe("2026-01-05");
+    expect(leap.sampleDate).toBe("2024-02-29");
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("../supabase", () => ({ supabaseAdmin: {} }));
+
+vi.mock("../embeddings", async (importOriginal) => ({
+  cosineSimilarity: (await importOriginal<typeof import("../embeddings")>()).cosineSimilarity,
+  getEmbeddingProvider: () => ({ provider: "hashing", model: "test-model", dimensions: 2 }),
+  embedBatch: vi.fn(async (texts: string[]) => ({
+    embeddings: texts.map((text, index) => ({ text, embedding: [1, index % 2] })),
+    cache: { hits: 0, misses: texts.length }
+  }))
+}));
+
+const gemini = vi.hoisted(() => ({
+  generateContent: vi.fn(async () => ({ text: '{"documentType": "discharge_summary", "confidence": 0.9}' }))
+}));
+
+vi.mock("@google/genai", () => ({
+  GoogleGenAI: class {
+    models = { generateContent: gemini.generateContent };
+  }
+}));
+
+import { processDocument } from "../pdf-processing";
+import { resolveChunkingConfig } from "../chunking";
+import { embedBatch } from "../embeddings";
+
+// Tres páginas (separadas por \f) con el banner del paciente repetido en cada una
+function textFile(body: (index: number) => string): Buffer {
+  return Buffer.from(
+    [0, 1, 2]
+      .map(index => `Paciente: Pérez, Juan\nHC 123456\n\n${body(index)}`)
+      .join("\f")
+  );
+}
+
+beforeEach(() => {
+  vi.mocked(embedBatch).mockClear();
+  gemini.generateContent.mockClear();
+  vi.unstubAllEnvs();
+});
+
+describe("processDocument", () => {
+  it("desidentifica con el membrete el nombre que el cuerpo repite sin etiqueta", async () => {
+    const result = await processDocument(
+      textFile(index => `Día ${index + 1}: se explica a Pérez, Juan el tratamiento indicado. Control clínico en una semana.`),
+      resolveChunkingConfig("semantic"),
+      "text/plain",
+      "evolucion.txt"
+    );
+
+    expect(result.success).toBe(true);
+    expect(result.metadata.boilerplate?.header).toContain("Paciente: Pérez, Juan");
+    expect(Object.values(result.boilerplateMapping ?? {})).toContain("Pérez, Juan");
+
+    const embeddedTexts = vi.mocked(embedBatch).mock.calls.flatMap(([texts]) => texts);
+    expect(embeddedTexts.some(text => text.includes("se explica a [NOMBRE_1]"))).toBe(true);
+    expect(embeddedTexts.every(text => !text.includes("Pérez"))).toBe(true);
+  });
+
+  it("clasifica con Gemini sin enviar el nombre del archivo ni el del paciente", async () => {
+    vi.stubEnv("DOCUMENT_CLASSIFIER", "gemini");
+
+    const result = await processDocument(
+      textFile(index => [
+        "EPICRISIS\nMotivo de internación: neumonía adquirida en la comunidad.",
+        "Pérez, Juan evoluciona favorablemente con antibióticos endovenosos.",
+        "Se otorga el alta hospitalaria con indicaciones al alta.\nControl por consultorio externo."
+      ][index]),
+      resolveChunkingConfig("section-aware"),
+      "text/plain",
+      "Perez_Juan_epicrisis.txt"
+    );
+
+    expect(result.metadata.classification).toMatchObject({ documentType: "discharge_summary", classifier: "gemini" });
+    expect(gemini.generateContent).toHaveBeenCalled();
+
+    const prompts = gemini.generateContent.mock.calls.map(call => JSON.stringify(call));
+    expect(prompts.every(prompt => !prompt.includes("Pérez") && !prompt.includes("Perez_Juan"))).toBe(true);
+  });
+});
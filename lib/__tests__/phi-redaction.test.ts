@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("../supabase", () => ({ supabaseAdmin: {} }));
+
+import { redactText, redactTexts, reidentifyText, removePlaceholders } from "../phi-redaction";
+
+describe("redactText", () => {
+  it("reemplaza el DNI con etiqueta y lo restituye", () => {
+    const { text, mapping } = redactText("Paciente con DNI: 12.345.678 internado");
+
+    expect(text).toBe("Paciente con DNI: [DNI_1] internado");
+    expect(reidentifyText(text, mapping)).toBe("Paciente con DNI: 12.345.678 internado");
+  });
+
+  it("reconoce un DNI sin etiqueta junto a campos identificatorios", () => {
+    const { text } = redactText("PÉREZ, Juan 12.345.678 Edad 45");
+
+    expect(text).toBe("PÉREZ, Juan [DNI_1] Edad 45");
+  });
+
+  it("no toma recuentos de laboratorio como DNI", () => {
+    const lines = [
+      "Glóbulos rojos 4.500.000 /mm3 4.200.000 - 5.400.000",
+      "Plaquetas 1.250.000",
+      "Plaquetas 250.000 a 1.250.000 /ul"
+    ];
+
+    for (const line of lines) {
+      expect(redactText(line).text).toBe(line);
+    }
+  });
+
+  it("solo reemplaza CUIL con dígito verificador válido", () => {
+    expect(redactText("CUIL 20-12345678-6").text).toBe("CUIL [CUIL_1]");
+    expect(redactText("Expediente 20-12345678-5").text).toBe("Expediente 20-12345678-5");
+  });
+
+  it("usa el mismo placeholder para el mismo valor en varios textos", () => {
+    const { texts, mapping } = redactTexts([
+      "Paciente: Pérez, Juan",
+      "Se explica a Pérez, Juan el tratamiento"
+    ]);
+
+    expect(texts[0]).toBe("Paciente: [NOMBRE_1]");
+    expect(texts[1]).toBe("Se explica a [NOMBRE_1] el tratamiento");
+    expect(mapping["[NOMBRE_1]"]).toBe("Pérez, Juan");
+  });
+});
+
+describe("removePlaceholders", () => {
+  it("quita los placeholders y los espacios sobrantes", () => {
+    expect(removePlaceholders("dosis de [NOMBRE_1] según [DNI_2]")).toBe("dosis de según");
+  });
+});
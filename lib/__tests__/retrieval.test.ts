@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+// ============================================
+// Supabase simulado: resultados de cada RPC y de cada tabla
+// ============================================
+
+const db = vi.hoisted(() => ({
+  semantic: {} as Record<string, unknown[]>,   // Resultados de match_documents por vector de la query
+  keyword: [] as unknown[],
+  chunkEmbeddings: [] as unknown[],
+  tables: [] as string[]
+}));
+
+vi.mock("../supabase", () => {
+  // Cualquier cadena de filtros termina en el resultado de la tabla
+  const query = (result: unknown): unknown => new Proxy({}, {
+    get: (_, prop) => prop === "then"
+      ? (resolve: (value: unknown) => void) => resolve(result)
+      : () => query(result)
+  });
+
+  return {
+    supabaseAdmin: {
+      rpc: vi.fn(async (name: string, params: { query_embedding?: number[] }) => ({
+        data: name === "match_documents" ? db.semantic[JSON.stringify(params.query_embedding)] ?? [] : db.keyword,
+        error: null
+      })),
+      from: vi.fn((table: string) => {
+        db.tables.push(table);
+        return query({ data: table === "document_chunks" ? db.chunkEmbeddings : null, error: null });
+      })
+    }
+  };
+});
+
+vi.mock("../embeddings", async (importOriginal) => ({
+  cosineSimilarity: (await importOriginal<typeof import("../embeddings")>()).cosineSimilarity,
+  getEmbeddingProvider: () => ({ provider: "hashing", model: "test-model", dimensions: 2 }),
+  embedQuery: vi.fn(async (text: string) => text.includes("variante") ? [0, 1] : [1, 0])
+}));
+
+import { hybridSearch, multiQuerySearch } from "../retrieval";
+import { supabaseAdmin } from "../supabase";
+
+function row(id: string, similarity = 0.8) {
+  return {
+    id,
+    content: `Fragmento ${id}`,
+    similarity,
+    rank: 0.5,
+    metadata: null,
+    page_number: 1,
+    end_page_number: 1,
+    token_count: 10,
+    char_start: null,
+    char_end: null,
+    bounding_boxes: []
+  };
+}
+
+beforeEach(() => {
+  db.semantic = {};
+  db.keyword = [];
+  db.chunkEmbeddings = [];
+  db.tables = [];
+  vi.mocked(supabaseAdmin.rpc).mockClear();
+});
+
+describe("hybridSearch", () => {
+  it("fusiona semántica y palabras clave con RRF", async () => {
+    db.semantic["[1,0]"] = [row("a", 0.9), row("b", 0.8)];
+    db.keyword = [row("b"), row("c")];
+
+    const results = await hybridSearch("consulta", "doc-1", { mmrLambda: 1 }, {});
+
+    expect(results.map(chunk => chunk.id)).toEqual(["b", "a", "c"]);
+    expect(results[0].fusionScore).toBeCloseTo(1 / 62 + 1 / 61);
+    expect(results[0].similarity).toBe(0.8);
+    expect(results[2].similarity).toBe(0);
+  });
+
+  it("busca por palabras clave con la query desidentificada", async () => {
+    await hybridSearch("dosis indicada al DNI 12.345.678", "doc-1", { mmrLambda: 1 }, {});
+
+    const keywordCall = vi.mocked(supabaseAdmin.rpc).mock.calls.find(([name]) => name === "match_chunks_keyword");
+    const queryText = (keywordCall?.[1] as { query_text: string }).query_text;
+
+    expect(queryText).toContain("dosis indicada");
+    expect(queryText).not.toContain("12.345.678");
+    expect(queryText).not.toContain("[DNI_");
+  });
+
+  it("no vuelve a leer el mapping PHI si se lo pasa el llamador", async () => {
+    db.semantic["[1,0]"] = [row("a")];
+
+    await hybridSearch("consulta", "doc-1", { mmrLambda: 1 }, {});
+
+    expect(db.tables).not.toContain("document_phi_mappings");
+  });
+
+  it("diversifica con MMR descartando chunks casi idénticos", async () => {
+    db.semantic["[1,0]"] = [row("a", 0.8), row("a-copia", 0.8), row("b", 0.8)];
+    db.chunkEmbeddings = [
+      { id: "a", embedding: "[0.8,0.6]", embedding_model: "test-model", embedding_next: null, embedding_next_model: null },
+      { id: "a-copia", embedding: "[0.8,0.6]", embedding_model: "test-model", embedding_next: null, embedding_next_model: null },
+      { id: "b", embedding: "[0.8,-0.6]", embedding_model: "test-model", embedding_next: null, embedding_next_model: null }
+    ];
+
+    const results = await hybridSearch("consulta", "doc-1", { topK: 2, mmrLambda: 0.5, keywordWeight: 0 }, {});
+
+    expect(results.map(chunk => chunk.id)).toEqual(["a", "b"]);
+  });
+
+  it("compara con el vector nuevo de un chunk re-vectorizado sin promover", async () => {
+    db.semantic["[1,0]"] = [row("a", 0.8), row("a-copia", 0.8), row("b", 0.8)];
+    db.chunkEmbeddings = [
+      { id: "a", embedding: "[0.8,0.6]", embedding_model: "test-model", embedding_next: null, embedding_next_model: null },
+      { id: "a-copia", embedding: "[0.1,0.2,0.3]", embedding_model: "old-model", embedding_next: "[0.8,0.6]", embedding_next_model: "test-model" },
+      { id: "b", embedding: "[0.8,-0.6]", embedding_model: "test-model", embedding_next: null, embedding_next_model: null }
+    ];
+
+    const results = await hybridSearch("consulta", "doc-1", { topK: 2, mmrLambda: 0.5, keywordWeight: 0 }, {});
+
+    expect(results.map(chunk => chunk.id)).toEqual(["a", "b"]);
+  });
+});
+
+describe("multiQuerySearch", () => {
+  it("sube los chunks que aparecen en varias formulaciones", async () => {
+    db.semantic["[1,0]"] = [row("a"), row("b")];
+    db.semantic["[0,1]"] = [row("c"), row("b")];
+
+    const results = await multiQuerySearch(["consulta", "variante de la consulta"], "doc-1", { mmrLambda: 1 }, {});
+
+    expect(results[0].id).toBe("b");
+    expect(results.map(chunk => chunk.id).sort()).toEqual(["a", "b", "c"]);
+  });
+});
@@ -0,0 +1,232 @@
+import type { PageText } from "./document-loaders";
+
+// ============================================
+// Configuración
+// ============================================
+
+const BOILERPLATE_CONFIG = {
+  edgeLines: 2,           // Líneas al inicio y al final de cada página donde buscar
+  minPageRatio: 0.5,      // Una línea es repetida si aparece en al menos 50% de las páginas
+  minPages: 2             // ...y en al menos 2 páginas
+} as const;
+
+// "Página 3 de 45", "Pág. 3/45", "Hoja 3", "- 3 -", "3 de 45"
+const PAGE_STAMP_PATTERN = /^(-\s*\d+\s*-|((p[áa]g(ina)?\.?|hoja|folio)\s*)?\d+\s*(de|\/)\s*\d+|(p[áa]g(ina)?\.?|hoja|folio)\s*\d+)$/i;
+
+// Un número solo puede ser un valor clínico: se quita solo si sigue la numeración de las páginas
+const BARE_NUMBER_PATTERN = /^\d+$/;
+
+// Líneas con datos clínicos: solo se consideran repetidas si son idénticas (con los mismos números)
+const CLINICAL_KEYWORDS = /\b(mg|mcg|ml|ui|mmhg|lpm|rpm|kg|dosis|presion|tension|temperatura|frecuencia|saturacion|glucemia|hemoglobina|hematocrito|plaquetas|leucocitos|creatinina|diagnostico|medicacion|tratamiento|indicaciones|evolucion)\b/;
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface DocumentBoilerplate {
+  header: string[];       // Membrete institucional y banner del paciente
+  footer: string[];       // Pie de página repetido
+}
+
+export interface BoilerplateResult {
+  pages: PageText[];      // Páginas sin encabezados, pies ni numeración
+  boilerplate: DocumentBoilerplate;
+}
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Elimina encabezados, pies de página y sellos de numeración repetidos
+ * Una línea se considera repetida si aparece en las primeras o últimas líneas
+ * de la mayoría de las páginas (ignorando diferencias en los números, salvo en líneas clínicas)
+ *
+ * @param pages - Texto de cada página
+ * @returns Páginas limpias y las líneas repetidas encontradas
+ */
+export function stripBoilerplate(pages: PageText[]): BoilerplateResult {
+  const pageLines = pages.map(page => splitLines(page.text));
+  const pagesWithText = pageLines.filter(lines => lines.length > 0).length;
+
+  // 1. Contar en cuántas páginas aparece cada línea de los bordes
+  const headerCounts = countEdgeLines(pageLines, "top");
+  const footerCounts = countEdgeLines(pageLines, "bottom");
+
+  const minOccurrences = Math.max(
+    BOILERPLATE_CONFIG.minPages,
+    Math.ceil(pagesWithText * BOILERPLATE_CONFIG.minPageRatio)
+  );
+
+  const isRepeated = (counts: Map<string, EdgeLineCount>, key: string) =>
+    pagesWithText >= BOILERPLATE_CONFIG.minPages &&
+    (counts.get(key)?.pages ?? 0) >= minOccurrences;
+
+  const pageNumberOffset = findPageNumberOffset(pageLines);
+
+  // 2. Quitar de cada página las líneas repetidas y los números de página
+  const cleanedPages = pages.map((page, index) => {
+    const lines = pageLines[index];
+    const { topEnd, bottomStart } = getEdgeBounds(lines.length);
+
+    const kept = lines.filter((line, lineIndex) => {
+      const key = normalizeLine(line);
+      const inTop = lineIndex < topEnd;
+      const inBottom = lineIndex >= bottomStart;
+
+      if (BARE_NUMBER_PATTERN.test(line)) {
+        return !((inTop || inBottom) && Number(line) - index === pageNumberOffset);
+      }
+      if ((inTop || inBottom) && PAGE_STAMP_PATTERN.test(line)) return false;
+      if (inTop && isRepeated(headerCounts, key)) return false;
+      if (inBottom && isRepeated(footerCounts, key)) return false;
+      return true;
+    });
+
+    return kept.length === lines.length
+      ? page
+      : { ...page, text: rebuildText(page.text, kept) };
+  });
+
+  // 3. Guardar una sola vez las líneas repetidas (sin la numeración)
+  const collect = (counts: Map<string, EdgeLineCount>) =>
+    Array.from(counts.entries())
+      .filter(([key, count]) =>
+        isRepeated(counts, key) &&
+        !PAGE_STAMP_PATTERN.test(count.text) &&
+        !BARE_NUMBER_PATTERN.test(count.text)
+      )
+      .map(([, count]) => count.text);
+
+  return {
+    pages: cleanedPages,
+    boilerplate: {
+      header: collect(headerCounts),
+      footer: collect(footerCounts)
+    }
+  };
+}
+
+// ============================================
+// Funciones auxiliares
+// ============================================
+
+interface EdgeLineCount {
+  text: string;           // Primera aparición de la línea, tal como está en el documento
+  pages: number;          // Cantidad de páginas donde aparece
+}
+
+/**
+ * Cuenta en cuántas páginas aparece cada línea del borde indicado
+ * Map conserva el orden de primera aparición (orden del membrete)
+ */
+function countEdgeLines(
+  pageLines: string[][],
+  edge: "top" | "bottom"
+): Map<string, EdgeLineCount> {
+  const counts = new Map<string, EdgeLineCount>();
+
+  for (const lines of pageLines) {
+    const { topEnd, bottomStart } = getEdgeBounds(lines.length);
+    const edgeLines = edge === "top"
+      ? lines.slice(0, topEnd)
+      : lines.slice(bottomStart);
+
+    // Contar cada línea una sola vez por página
+    for (const key of new Set(edgeLines.map(normalizeLine))) {
+      if (!key) continue;
+      const original = edgeLines.find(line => normalizeLine(line) === key) ?? key;
+      const current = counts.get(key);
+      counts.set(key, { text: current?.text ?? original, pages: (current?.pages ?? 0) + 1 });
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Busca números solos en los bordes que avanzan de a uno con las páginas (1, 2, 3... o 5, 6, 7...)
+ * Devuelve la diferencia entre el número y el índice de la página, o null si no hay numeración
+ */
+function findPageNumberOffset(pageLines: string[][]): number | null {
+  const offsets = new Map<number, number>();
+
+  pageLines.forEach((lines, index) => {
+    const { topEnd, bottomStart } = getEdgeBounds(lines.length);
+    const edgeNumbers = [...lines.slice(0, topEnd), ...lines.slice(bottomStart)]
+      .filter(line => BARE_NUMBER_PATTERN.test(line))
+      .map(line => Number(line) - index);
+
+    for (const offset of new Set(edgeNumbers)) {
+      offsets.set(offset, (offsets.get(offset) ?? 0) + 1);
+    }
+  });
+
+  let best: number | null = null;
+  let bestPages = 0;
+
+  offsets.forEach((pages, offset) => {
+    if (pages >= BOILERPLATE_CONFIG.minPages && pages > bestPages) {
+      best = offset;
+      bestPages = pages;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Calcula qué líneas de una página forman el borde superior e inferior
+ * En páginas cortas los bordes no se superponen: la mitad superior es encabezado
+ */
+function getEdgeBounds(lineCount: number): { topEnd: number; bottomStart: number } {
+  const topEnd = Math.min(BOILERPLATE_CONFIG.edgeLines, Math.ceil(lineCount / 2));
+  const bottomStart = Math.max(topEnd, lineCount - BOILERPLATE_CONFIG.edgeLines);
+  return { topEnd, bottomStart };
+}
+
+/**
+ * Divide el texto de una página en líneas no vacías
+ */
+function splitLines(text: string): string[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Normaliza una línea para compararla entre páginas
+ * Los números se reemplazan para que "Página 3" y "Página 4" coincidan,
+ * salvo en líneas con datos clínicos ("Presión 120/80" no es igual a "Presión 130/90")
+ */
+function normalizeLine(line: string): string {
+  const normalized = line
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+  const withoutAccents = normalized.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+
+  return CLINICAL_KEYWORDS.test(withoutAccents) ? normalized : normalized.replace(/\d+/g, "#");
+}
+
+/**
+ * Reconstruye el texto de la página con las líneas conservadas
+ * Mantiene los saltos de párrafo (líneas vacías) del texto original
+ */
+function rebuildText(original: string, kept: string[]): string {
+  const remaining = [...kept];
+
+  return original
+    .split(/\r?\n/)
+    .filter(line => {
+      const trimmed = line.trim();
+      if (!trimmed) return true;
+      if (remaining[0] === trimmed) {
+        remaining.shift();
+        return true;
+      }
+      return false;
+    })
+    .join("\n");
+}
@@ -308,6 +308,38 @@ export function formatChatHistory(messages: ChatMessage[]): string {
     .join("\n\n");
 }
 
+/**
+ * Obtiene los últimos mensajes de una sesión
+ * A diferencia de getChatHistory (que devuelve los primeros), toma los más recientes
+ * 
+ * @param sessionId - ID de la sesión
+ * @param limit - Número de mensajes recientes a obtener
+ * @returns Array de mensajes ordenados cronológicamente
+ */
+export async function getRecentChatHistory(
+  sessionId: string,
+  limit: number
+): Promise<ChatMessage[]> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("chat_messages")
+      .select("id, session_id, role, content, metadata, created_at")
+      .eq("session_id", sessionId)
+      .order("created_at", { ascending: false })
+      .limit(limit);
+
+    if (error) {
+      console.error("Error getting recent chat history:", error);
+      return [];
+    }
+
+    return ((data as ChatMessage[]) || []).reverse();
+  } catch (error) {
+    console.error("Error in getRecentChatHistory:", error);
+    return [];
+  }
+}
+
 /**
  * Obtiene el historial optimizado con ventana deslizante
  * Retorna los últimos N mensajes para mantener contexto sin exceder límites de tokens
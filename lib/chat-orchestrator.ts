@@ -5,14 +5,29 @@ import {
   formatChatHistory 
 } from "./chat-memory";
 import { 
-  hybridSearch, 
+  multiQuerySearch, 
   formatChunksAsContext,
   RetrievedChunk
 } from "./retrieval";
+import { rewriteQuery, QueryRewriteResult } from "./query-rewriting";
 import { 
   generateResponse, 
   generateResponseStream 
 } from "./response-generation";
+import {
+  redactText,
+  redactTexts,
+  reidentifyText,
+  reidentifyStream,
+  getPHIMapping,
+  PHIMapping
+} from "./phi-redaction";
+import { canUserAccessDocument, getDocumentById } from "./document-storage";
+import {
+  diffDocumentVersions,
+  isVersionChangeQuestion,
+  formatVersionDiffAsContext
+} from "./document-versions";
 
 // ============================================
 // Interfaces
@@ -29,6 +44,7 @@ export interface ChatConfig {
   modelTemperature?: number;
   userId?: string;
   title?: string;
+  queryVariants?: number;   // Variantes de la consulta para buscar (default: QUERY_VARIANTS)
 }
 
 // ============================================
@@ -40,8 +56,9 @@ export interface ChatConfig {
  * 1. Recupera/Crea sesión
  * 2. Busca contexto relevante
  * 3. Recupera historial
- * 4. Genera respuesta
- * 5. Guarda interacción
+ * 4. Desidentifica el prompt
+ * 5. Genera respuesta (re-identificada si el usuario está autorizado)
+ * 6. Guarda interacción
  * 
  * @param message - Mensaje del usuario
  * @param documentId - ID del documento médico
@@ -70,35 +87,49 @@ export async function processChat(
 
   // 2. Buscar contexto relevante (RAG)
   // Usamos búsqueda híbrida para mejor precisión
-  const relevantChunks = await hybridSearch(message, documentId, {
-    topK: 5,
-    threshold: 0.6 // Ligeramente más permisivo para capturar contexto
-  });
+  const documentMapping = await getPHIMapping(documentId);
+  const { chunks: relevantChunks, rewrite } = await retrieveChunks(
+    message,
+    documentId,
+    currentSessionId,
+    documentMapping,
+    config
+  );
   
-  const context = formatChunksAsContext(relevantChunks);
+  const context = await withVersionChanges(formatChunksAsContext(relevantChunks), message, documentId);
 
   // 3. Recuperar historial de conversación
   // Limitamos a los últimos 10 mensajes para no saturar el contexto
   const history = await getChatHistory(currentSessionId, 10);
   const formattedHistory = formatChatHistory(history);
 
-  // 4. Generar respuesta con LLM
-  const response = await generateResponse(
-    context,
-    formattedHistory,
-    message,
+  // 4. Desidentificar todo lo que se envía al LLM
+  const canViewPHI = await isAuthorizedForPHI(documentId, config?.userId);
+  const {
+    texts: [redactedContext, redactedHistory, redactedMessage],
+    mapping: phiMapping
+  } = redactTexts([context, formattedHistory, message], documentMapping);
+
+  // 5. Generar respuesta con LLM y re-identificarla solo para usuarios autorizados
+  const redactedResponse = await generateResponse(
+    redactedContext,
+    redactedHistory,
+    redactedMessage,
     { temperature: config?.modelTemperature }
   );
+  const response = canViewPHI
+    ? reidentifyText(redactedResponse, phiMapping)
+    : redactedResponse;
 
-  // 5. Guardar interacción en historial
+  // 6. Guardar interacción en historial
   // Primero guardamos el mensaje del usuario si no es una sesión nueva sin mensajes
-  await saveChatMessage(currentSessionId, "user", message);
+  await saveChatMessage(currentSessionId, "user", message, getRewriteMetadata(rewrite));
   await saveChatMessage(currentSessionId, "assistant", response);
 
   return {
     response,
     sessionId: currentSessionId,
-    sources: relevantChunks
+    sources: canViewPHI ? relevantChunks : redactSources(relevantChunks, phiMapping)
   };
 }
 
@@ -138,43 +169,162 @@ export async function* processChatStream(
     callbacks?.onSessionCreated?.(currentSessionId);
   }
 
-  // 2. Buscar contexto relevante (RAG)
-  const relevantChunks = await hybridSearch(message, documentId, {
-    topK: 5,
-    threshold: 0.6
-  });
+  // 2. Buscar contexto relevante (RAG), reformulando las preguntas de seguimiento
+  const documentMapping = await getPHIMapping(documentId);
+  const { chunks: relevantChunks, rewrite } = await retrieveChunks(
+    message,
+    documentId,
+    currentSessionId,
+    documentMapping,
+    config
+  );
+  
+  const canViewPHI = await isAuthorizedForPHI(documentId, config?.userId);
   
   if (callbacks?.onSourcesRetrieved) {
-    callbacks.onSourcesRetrieved(relevantChunks);
+    callbacks.onSourcesRetrieved(
+      canViewPHI ? relevantChunks : redactSources(relevantChunks, documentMapping)
+    );
   }
   
-  const context = formatChunksAsContext(relevantChunks);
+  const context = await withVersionChanges(formatChunksAsContext(relevantChunks), message, documentId);
 
   // 3. Recuperar historial
   const history = await getChatHistory(currentSessionId, 10);
   const formattedHistory = formatChatHistory(history);
 
   // 4. Guardar mensaje del usuario ANTES de generar (para mantener orden)
-  await saveChatMessage(currentSessionId, "user", message);
+  await saveChatMessage(currentSessionId, "user", message, getRewriteMetadata(rewrite));
+
+  // 5. Desidentificar todo lo que se envía al LLM
+  const {
+    texts: [redactedContext, redactedHistory, redactedMessage],
+    mapping: phiMapping
+  } = redactTexts([context, formattedHistory, message], documentMapping);
 
-  // 5. Generar respuesta en Stream
+  // 6. Generar respuesta en Stream (re-identificada solo para usuarios autorizados)
   let fullResponse = "";
   
-  const stream = generateResponseStream(
-    context,
-    formattedHistory,
-    message
+  const redactedStream = generateResponseStream(
+    redactedContext,
+    redactedHistory,
+    redactedMessage
   );
+  const stream = canViewPHI
+    ? reidentifyStream(redactedStream, phiMapping)
+    : redactedStream;
 
   for await (const chunk of stream) {
     fullResponse += chunk;
     yield chunk;
   }
 
-  // 6. Guardar respuesta completa en historial
+  // 7. Guardar respuesta completa en historial
   await saveChatMessage(currentSessionId, "assistant", fullResponse);
   
   if (callbacks?.onCompletion) {
     callbacks.onCompletion(fullResponse);
   }
 }
+
+// ============================================
+// Recuperación
+// ============================================
+
+/**
+ * Busca los fragmentos relevantes para el mensaje
+ * Antes de buscar, reformula las preguntas de seguimiento ("¿y la dosis?") como consultas
+ * autónomas con el historial de la sesión; con variantes, busca con cada una y fusiona
+ *
+ * @param message - Mensaje del usuario
+ * @param documentId - ID del documento médico
+ * @param sessionId - ID de la sesión (el mensaje actual todavía no está guardado)
+ * @param phiMapping - Placeholders del documento
+ * @param config - Configuración del chat (variantes)
+ */
+async function retrieveChunks(
+  message: string,
+  documentId: string,
+  sessionId: string,
+  phiMapping: PHIMapping,
+  config?: ChatConfig
+): Promise<{ chunks: RetrievedChunk[]; rewrite: QueryRewriteResult }> {
+  const rewrite = await rewriteQuery(message, sessionId, {
+    variants: config?.queryVariants,
+    phiMapping
+  });
+
+  const chunks = await multiQuerySearch([rewrite.query, ...rewrite.variants], documentId, {
+    topK: 5,
+    threshold: 0.6 // Ligeramente más permisivo para capturar contexto
+  }, phiMapping);
+
+  return { chunks, rewrite };
+}
+
+/**
+ * Metadata del mensaje del usuario: la consulta con la que se buscó, para depurar la recuperación
+ */
+function getRewriteMetadata(rewrite: QueryRewriteResult): Record<string, unknown> | undefined {
+  if (!rewrite.rewritten) return undefined;
+
+  return {
+    rewrittenQuery: rewrite.query,
+    ...(rewrite.variants.length > 0 ? { queryVariants: rewrite.variants } : {})
+  };
+}
+
+// ============================================
+// Versiones del documento
+// ============================================
+
+/**
+ * Agrega al contexto los cambios respecto de la versión anterior
+ * Solo si el mensaje pregunta por cambios ("¿qué cambió desde la versión anterior?")
+ *
+ * @param context - Contexto con los fragmentos recuperados
+ * @param message - Mensaje del usuario
+ * @param documentId - ID del documento médico (versión actual)
+ */
+async function withVersionChanges(context: string, message: string, documentId: string): Promise<string> {
+  if (!isVersionChangeQuestion(message)) return context;
+
+  const document = await getDocumentById(documentId);
+  if (!document) return context;
+
+  if (!document.previous_version_id) {
+    return `[Versiones]\nEl documento no tiene una versión anterior con la cual compararlo.\n\n---\n\n${context}`;
+  }
+
+  const { success, diff } = await diffDocumentVersions(document.previous_version_id, documentId);
+  if (!success || !diff) return context;
+
+  return `${formatVersionDiffAsContext(diff)}\n\n---\n\n${context}`;
+}
+
+// ============================================
+// Datos identificatorios
+// ============================================
+
+/**
+ * Indica si el usuario puede ver los datos identificatorios del documento
+ * Solo el dueño del documento (o quien subió el mismo archivo) recibe las respuestas re-identificadas
+ *
+ * @param documentId - ID del documento médico
+ * @param userId - ID del usuario autenticado
+ */
+async function isAuthorizedForPHI(documentId: string, userId?: string): Promise<boolean> {
+  if (!userId) return false;
+
+  return canUserAccessDocument(documentId, userId);
+}
+
+/**
+ * Desidentifica el contenido de las fuentes para usuarios no autorizados
+ */
+function redactSources(chunks: RetrievedChunk[], mapping: PHIMapping): RetrievedChunk[] {
+  return chunks.map(chunk => ({
+    ...chunk,
+    content: redactText(chunk.content, mapping).text
+  }));
+}
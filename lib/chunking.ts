@@ -0,0 +1,607 @@
+import { detectSectionHeading } from "./clinical-sections";
+import { embedBatch, cosineSimilarity } from "./embeddings";
+import { redactTexts, PHIMapping } from "./phi-redaction";
+import { countTokens, takeLastTokens } from "./tokenizer";
+import type { PageText } from "./document-loaders";
+
+// ============================================
+// Interfaces
+// ============================================
+
+export type ChunkingStrategyName =
+  | "fixed-size"
+  | "sentence-window"
+  | "section-aware"
+  | "semantic";
+
+export interface ChunkingConfig {
+  strategy: ChunkingStrategyName;
+  chunkSize: number;              // Tamaño máximo del chunk en tokens del modelo
+  chunkOverlap: number;           // Superposición entre chunks en tokens
+  sentenceOverlap?: number;       // sentence-window: oraciones compartidas entre chunks consecutivos
+  breakpointPercentile?: number;  // semantic: cortar donde la similitud cae al N% más bajo (siempre en la mínima)
+}
+
+export interface TextChunk {
+  content: string;
+  pageNumber: number;
+  endPageNumber: number;
+  section?: string;
+  tokenCount: number;     // Tokens del contenido según el tokenizer del modelo
+}
+
+// Chunk producido por una estrategia, antes de contar sus tokens
+type RawChunk = Omit<TextChunk, "tokenCount">;
+
+interface ChunkingStrategy {
+  description: string;
+  defaults: ChunkingConfig;
+  split: (pages: PageText[], config: ChunkingConfig, phiMapping: PHIMapping) => Promise<RawChunk[]>;
+}
+
+// Párrafo, oración o palabra con la página y sección de donde proviene
+interface TextUnit {
+  text: string;
+  pageNumber: number;
+  section?: string;
+  tokens?: number;
+}
+
+// ============================================
+// Registro de estrategias
+// ============================================
+
+const CHUNKING_STRATEGIES: Record<ChunkingStrategyName, ChunkingStrategy> = {
+  "fixed-size": {
+    description: "Ventana deslizante de tamaño fijo en tokens, cortando entre palabras",
+    defaults: {
+      strategy: "fixed-size",
+      chunkSize: 300,
+      chunkOverlap: 60
+    },
+    split: async (pages, config) => splitFixedSize(pages, config)
+  },
+  "sentence-window": {
+    description: "Agrupa oraciones completas y repite las últimas en el chunk siguiente",
+    defaults: {
+      strategy: "sentence-window",
+      chunkSize: 300,
+      chunkOverlap: 0,
+      sentenceOverlap: 2
+    },
+    split: async (pages, config) => splitSentenceWindow(pages, config)
+  },
+  "section-aware": {
+    description: "Párrafos agrupados sin cruzar secciones clínicas (Antecedentes, Evolución, etc.)",
+    defaults: {
+      strategy: "section-aware",
+      chunkSize: 300,         // ~1200 caracteres de español médico
+      chunkOverlap: 60        // 20% del chunk aproximadamente
+    },
+    split: async (pages, config) => splitSectionAware(pages, config)
+  },
+  // Costo: vectoriza cada oración además de los chunks (un embedding por oración, por embedBatch:
+  // mismos batches, reintentos y cache que la ingesta; re-procesar el mismo texto no vuelve a pagarlas)
+  semantic: {
+    description: "Corta donde cae la similitud de embeddings entre oraciones vecinas",
+    defaults: {
+      strategy: "semantic",
+      chunkSize: 400,
+      chunkOverlap: 0,
+      breakpointPercentile: 10
+    },
+    split: splitSemantic
+  }
+};
+
+// Estrategia por defecto para documentos médicos
+const DEFAULT_CHUNKING_STRATEGY: ChunkingStrategyName = "section-aware";
+
+// Rangos aceptados para los parámetros recibidos en la subida
+const CHUNKING_LIMITS = {
+  minChunkSize: 50,         // Menos tokens no dan contexto suficiente para responder
+  maxChunkSize: 2000,       // El modelo de embeddings trunca textos de más de ~2048 tokens
+  maxSentenceOverlap: 10
+} as const;
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Verifica si un nombre corresponde a una estrategia registrada
+ *
+ * @param name - Nombre recibido (ej: desde el formulario de subida)
+ * @returns true si la estrategia existe
+ */
+export function isChunkingStrategy(name: string): name is ChunkingStrategyName {
+  return Object.prototype.hasOwnProperty.call(CHUNKING_STRATEGIES, name);
+}
+
+/**
+ * Combina los parámetros por defecto de una estrategia con los indicados
+ * Los valores undefined no pisan los valores por defecto
+ *
+ * @param strategy - Nombre de la estrategia
+ * @param overrides - Parámetros a sobrescribir
+ * @returns Configuración completa de chunking
+ */
+export function resolveChunkingConfig(
+  strategy: ChunkingStrategyName = DEFAULT_CHUNKING_STRATEGY,
+  overrides: Partial<Omit<ChunkingConfig, "strategy">> = {}
+): ChunkingConfig {
+  const definedOverrides = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  );
+
+  return {
+    ...CHUNKING_STRATEGIES[strategy].defaults,
+    ...definedOverrides,
+    strategy
+  };
+}
+
+/**
+ * Valida los parámetros de una configuración de chunking
+ * sentenceOverlap y breakpointPercentile solo se aceptan en la estrategia que los usa
+ *
+ * @param config - Configuración resuelta (ver resolveChunkingConfig)
+ * @returns Mensaje de error o null si es válida
+ */
+export function validateChunkingConfig(config: ChunkingConfig): string | null {
+  const { defaults } = CHUNKING_STRATEGIES[config.strategy];
+  const { minChunkSize, maxChunkSize, maxSentenceOverlap } = CHUNKING_LIMITS;
+  const isIntegerBetween = (value: number, min: number, max: number) =>
+    Number.isInteger(value) && value >= min && value <= max;
+
+  // Un parámetro de otra estrategia se ignoraría sin avisar
+  for (const param of ["sentenceOverlap", "breakpointPercentile"] as const) {
+    if (config[param] !== undefined && defaults[param] === undefined) {
+      return `${param} no aplica a la estrategia ${config.strategy}`;
+    }
+  }
+
+  if (!isIntegerBetween(config.chunkSize, minChunkSize, maxChunkSize)) {
+    return `chunkSize debe ser un entero entre ${minChunkSize} y ${maxChunkSize}`;
+  }
+
+  if (!isIntegerBetween(config.chunkOverlap, 0, config.chunkSize - 1)) {
+    return "chunkOverlap debe ser un entero entre 0 y chunkSize - 1";
+  }
+
+  if (config.sentenceOverlap !== undefined && !isIntegerBetween(config.sentenceOverlap, 0, maxSentenceOverlap)) {
+    return `sentenceOverlap debe ser un entero entre 0 y ${maxSentenceOverlap}`;
+  }
+
+  const percentile = config.breakpointPercentile;
+  if (percentile !== undefined && !(Number.isFinite(percentile) && percentile >= 0 && percentile <= 100)) {
+    return "breakpointPercentile debe estar entre 0 y 100";
+  }
+
+  return null;
+}
+
+/**
+ * Indica si dos configuraciones producen los mismos chunks
+ * Una configuración guardada sin estrategia se compara como la estrategia por defecto
+ *
+ * @param stored - Configuración guardada (ej: en las opciones de un trabajo de ingesta)
+ * @param requested - Configuración resuelta para una subida
+ */
+export function isSameChunkingConfig(stored: ChunkingConfig | undefined, requested: ChunkingConfig): boolean {
+  const resolved = resolveChunkingConfig(stored?.strategy, stored ?? {});
+
+  return resolved.strategy === requested.strategy &&
+    resolved.chunkSize === requested.chunkSize &&
+    resolved.chunkOverlap === requested.chunkOverlap &&
+    resolved.sentenceOverlap === requested.sentenceOverlap &&
+    resolved.breakpointPercentile === requested.breakpointPercentile;
+}
+
+/**
+ * Divide el texto de las páginas en chunks con la estrategia configurada
+ * Cada chunk registra la página donde comienza, donde termina y sus tokens
+ *
+ * @param pages - Texto extraído de cada página
+ * @param config - Configuración de chunking (incluye la estrategia)
+ * @param phiMapping - Mapping del documento (ej: del membrete), para desidentificar lo que se vectoriza al cortar
+ * @returns Array de chunks con su rango de páginas y sección
+ */
+export async function splitIntoChunks(
+  pages: PageText[],
+  config: ChunkingConfig,
+  phiMapping: PHIMapping = {}
+): Promise<TextChunk[]> {
+  const chunks = await CHUNKING_STRATEGIES[config.strategy].split(pages, config, phiMapping);
+
+  // Filtrar chunks muy pequeños (menos de 50 caracteres), salvo secciones
+  // cortas con contenido como "Alergias: Penicilina"
+  return chunks
+    .filter(chunk =>
+      chunk.content.length >= 50 ||
+      (chunk.section !== undefined && !isHeadingOnly(chunk.content))
+    )
+    .map(chunk => ({ ...chunk, tokenCount: countTokens(chunk.content) }));
+}
+
+/**
+ * Lista las estrategias disponibles con sus parámetros por defecto
+ * Útil para documentar la API de subida
+ *
+ * @returns Nombre, descripción y parámetros de cada estrategia
+ */
+export function getChunkingStrategies(): Array<{
+  name: ChunkingStrategyName;
+  description: string;
+  defaults: ChunkingConfig;
+}> {
+  return (Object.keys(CHUNKING_STRATEGIES) as ChunkingStrategyName[]).map(name => ({
+    name,
+    description: CHUNKING_STRATEGIES[name].description,
+    defaults: CHUNKING_STRATEGIES[name].defaults
+  }));
+}
+
+// ============================================
+// Estrategias
+// ============================================
+
+/**
+ * Estrategia fixed-size: ventana de tokens con overlap, cortando entre palabras
+ */
+function splitFixedSize(pages: PageText[], config: ChunkingConfig): RawChunk[] {
+  const words = splitIntoParagraphs(pages).flatMap(paragraph =>
+    paragraph.text
+      .split(/\s+/)
+      .filter(Boolean)
+      .map(word => ({ ...paragraph, text: word }))
+  );
+
+  return packUnits(words, config.chunkSize, " ", previous =>
+    takeLastByTokens(previous, config.chunkOverlap)
+  );
+}
+
+/**
+ * Estrategia sentence-window: oraciones completas con N oraciones de overlap
+ */
+function splitSentenceWindow(pages: PageText[], config: ChunkingConfig): RawChunk[] {
+  const sentences = splitIntoSentences(splitIntoParagraphs(pages));
+  const sentenceOverlap = config.sentenceOverlap ?? 0;
+
+  return packUnits(sentences, config.chunkSize, " ", previous =>
+    sentenceOverlap > 0 ? previous.slice(-sentenceOverlap) : []
+  );
+}
+
+/**
+ * Estrategia semantic: corta donde la similitud entre oraciones vecinas
+ * cae hasta el percentil configurado (interpolado, así también corta con pocas oraciones)
+ * Las oraciones se desidentifican con el mapping del documento: el membrete ya no está en las páginas
+ */
+async function splitSemantic(pages: PageText[], config: ChunkingConfig, phiMapping: PHIMapping): Promise<RawChunk[]> {
+  const sentences = splitIntoSentences(splitIntoParagraphs(pages));
+  if (sentences.length < 2) {
+    return packUnits(sentences, config.chunkSize, " ", () => []);
+  }
+
+  // 1. Vectorizar cada oración (desidentificada, el texto sale del servidor) con el cache de embeddings
+  const { texts } = redactTexts(sentences.map(sentence => sentence.text), phiMapping);
+  const { embeddings } = await embedBatch(texts);
+
+  // 2. Similitud entre cada oración y la anterior
+  const similarities = sentences.map((_, index) =>
+    index === 0
+      ? 1
+      : cosineSimilarity(embeddings[index - 1].embedding, embeddings[index].embedding)
+  );
+
+  // 3. Umbral: percentil inferior de las similitudes, interpolado entre los dos valores vecinos
+  //    Nunca queda por debajo de la mínima, así que al menos se corta ahí
+  const sorted = similarities.slice(1).sort((a, b) => a - b);
+  const percentile = Math.min(Math.max(config.breakpointPercentile ?? 10, 0), 100);
+  const position = (percentile / 100) * (sorted.length - 1);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  const threshold = sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+
+  // Todas iguales (ej: oraciones repetidas): no hay un punto de corte semántico
+  const hasBreakpoints = sorted[0] < sorted[sorted.length - 1];
+
+  return packUnits(
+    sentences,
+    config.chunkSize,
+    " ",
+    () => [],
+    index => hasBreakpoints && index > 0 && similarities[index] <= threshold
+  );
+}
+
+/**
+ * Estrategia section-aware: agrupa párrafos sin cruzar secciones clínicas
+ * Al cambiar de sección se cierra el chunk actual, sin overlap
+ */
+function splitSectionAware(pages: PageText[], config: ChunkingConfig): RawChunk[] {
+  const { chunkSize, chunkOverlap } = config;
+  const chunks: RawChunk[] = [];
+
+  // Dividir por párrafos primero (mejor para documentos médicos)
+  const paragraphs = splitIntoParagraphs(pages);
+
+  let currentChunk = "";
+  let currentSection: string | undefined;
+  let startPage = 0;
+  let endPage = 0;
+
+  const pushCurrentChunk = () => {
+    chunks.push({
+      content: currentChunk.trim(),
+      pageNumber: startPage,
+      endPageNumber: endPage,
+      section: currentSection
+    });
+  };
+
+  for (const { text: trimmedParagraph, pageNumber, section } of paragraphs) {
+    // Al cambiar de sección se cierra el chunk actual, sin overlap
+    if (section !== currentSection) {
+      if (currentChunk.trim()) {
+        pushCurrentChunk();
+      }
+      currentChunk = "";
+      currentSection = section;
+    }
+
+    // Si añadir el párrafo excede el tamaño máximo
+    if (countTokens(currentChunk + "\n\n" + trimmedParagraph) > chunkSize) {
+      const previousChunk = currentChunk;
+      if (previousChunk) {
+        pushCurrentChunk();
+        currentChunk = "";
+      }
+
+      const paragraphTokens = countTokens(trimmedParagraph);
+
+      if (previousChunk && paragraphTokens <= chunkSize) {
+        // Mantener overlap para contexto, solo con lo que deja libre el párrafo:
+        // el chunk nuevo nunca supera chunkSize
+        const budget = Math.min(chunkOverlap, chunkSize - paragraphTokens - 1);
+        const overlap = budget > 0 ? takeLastTokens(previousChunk, budget) : "";
+        const withOverlap = overlap + "\n\n" + trimmedParagraph;
+        const fits = overlap !== "" && countTokens(withOverlap) <= chunkSize;
+        currentChunk = fits ? withOverlap : trimmedParagraph;
+
+        // El overlap proviene de la última página del chunk anterior
+        startPage = fits ? endPage : pageNumber;
+        endPage = pageNumber;
+      } else {
+        // Párrafo muy largo, dividir por oraciones (la última puede no tener punto final)
+        // Una oración que sola supera chunkSize (ej: línea de laboratorio sin puntos) se corta
+        // por tokens entre palabras, como fixed-size
+        const sentences = (trimmedParagraph.match(/[^.!?]+(?:[.!?]+|$)/g) || [trimmedParagraph])
+          .flatMap(sentence => countTokens(sentence) > chunkSize
+            ? splitByTokens(sentence, chunkSize)
+            : [sentence]
+          );
+
+        for (const sentence of sentences) {
+          if (countTokens(currentChunk + " " + sentence) > chunkSize) {
+            if (currentChunk) {
+              pushCurrentChunk();
+            }
+            currentChunk = sentence;
+            startPage = pageNumber;
+          } else {
+            if (!currentChunk) startPage = pageNumber;
+            currentChunk += (currentChunk ? " " : "") + sentence;
+          }
+          endPage = pageNumber;
+        }
+      }
+    } else {
+      if (!currentChunk) startPage = pageNumber;
+      currentChunk += (currentChunk ? "\n\n" : "") + trimmedParagraph;
+      endPage = pageNumber;
+    }
+  }
+
+  // Agregar el último chunk si existe
+  if (currentChunk.trim()) {
+    pushCurrentChunk();
+  }
+
+  return chunks;
+}
+
+// ============================================
+// Funciones auxiliares
+// ============================================
+
+/**
+ * Divide las páginas en párrafos y asigna a cada uno su sección clínica
+ * Un encabezado de sección siempre inicia un párrafo nuevo
+ * @param pages - Texto extraído de cada página
+ * @returns Párrafos con su página y sección
+ */
+function splitIntoParagraphs(pages: PageText[]): TextUnit[] {
+  const paragraphs: TextUnit[] = [];
+  // La sección continúa en la página siguiente hasta el próximo encabezado
+  let currentSection: string | undefined;
+
+  for (const page of pages) {
+    for (const block of cleanText(page.text).split(/\n\n+/)) {
+      let lines: string[] = [];
+
+      const pushParagraph = () => {
+        const text = lines.join("\n").trim();
+        if (text) {
+          paragraphs.push({ text, pageNumber: page.pageNumber, section: currentSection });
+        }
+        lines = [];
+      };
+
+      for (const line of block.split("\n")) {
+        const heading = detectSectionHeading(line);
+        if (heading) {
+          pushParagraph();
+          currentSection = heading;
+        }
+        lines.push(line);
+      }
+
+      pushParagraph();
+    }
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Divide párrafos en oraciones conservando página y sección
+ * @param paragraphs - Párrafos del documento
+ * @returns Oraciones en orden de aparición
+ */
+function splitIntoSentences(paragraphs: TextUnit[]): TextUnit[] {
+  return paragraphs.flatMap(paragraph =>
+    (paragraph.text.match(/[^.!?]+(?:[.!?]+|$)/g) ?? [paragraph.text])
+      .map(sentence => sentence.trim())
+      .filter(Boolean)
+      .map(sentence => ({ ...paragraph, text: sentence }))
+  );
+}
+
+/**
+ * Agrupa unidades consecutivas en chunks de hasta chunkSize tokens
+ * @param units - Palabras u oraciones en orden
+ * @param chunkSize - Tamaño máximo del chunk en tokens
+ * @param separator - Separador entre unidades
+ * @param getOverlap - Unidades del chunk anterior que se repiten en el siguiente
+ * @param isBreakpoint - Fuerza un corte antes de la unidad indicada (sin overlap)
+ * @returns Chunks con su rango de páginas
+ */
+function packUnits(
+  units: TextUnit[],
+  chunkSize: number,
+  separator: string,
+  getOverlap: (previous: TextUnit[]) => TextUnit[],
+  isBreakpoint?: (index: number) => boolean
+): RawChunk[] {
+  const chunks: RawChunk[] = [];
+  let current: TextUnit[] = [];
+
+  const tokensOf = (group: TextUnit[]) =>
+    group.reduce((sum, unit) => sum + (unit.tokens ?? 0), 0);
+
+  units.forEach((rawUnit, index) => {
+    const unit = { ...rawUnit, tokens: countTokens(rawUnit.text) };
+    const forcedBreak = isBreakpoint?.(index) ?? false;
+    const exceedsSize = tokensOf(current) + unit.tokens > chunkSize;
+
+    if (current.length > 0 && (forcedBreak || exceedsSize)) {
+      chunks.push(toTextChunk(current, separator));
+
+      // El overlap nunca puede repetir el chunk completo
+      const overlap = forcedBreak ? [] : getOverlap(current);
+      current = overlap.length < current.length ? overlap : overlap.slice(1);
+    }
+
+    current.push(unit);
+  });
+
+  if (current.length > 0) {
+    chunks.push(toTextChunk(current, separator));
+  }
+
+  return chunks;
+}
+
+/**
+ * Corta un texto en partes de hasta maxTokens, entre palabras
+ * Cuenta los tokens de cada parte ya unida: la suma por palabra puede quedar por debajo
+ */
+function splitByTokens(text: string, maxTokens: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && countTokens(candidate) > maxTokens) {
+      pieces.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces;
+}
+
+/**
+ * Toma las últimas unidades cuyo total de tokens no supera maxTokens
+ */
+function takeLastByTokens(units: TextUnit[], maxTokens: number): TextUnit[] {
+  const result: TextUnit[] = [];
+  let tokens = 0;
+
+  for (let i = units.length - 1; i >= 0; i--) {
+    tokens += units[i].tokens ?? 0;
+    if (tokens > maxTokens) break;
+    result.unshift(units[i]);
+  }
+
+  return result;
+}
+
+/**
+ * Convierte un grupo de unidades en un chunk con su rango de páginas
+ * La sección solo se asigna si todas las unidades pertenecen a la misma
+ */
+function toTextChunk(units: TextUnit[], separator: string): RawChunk {
+  const section = units[0].section;
+
+  return {
+    content: units.map(unit => unit.text).join(separator).trim(),
+    pageNumber: units[0].pageNumber,
+    endPageNumber: units[units.length - 1].pageNumber,
+    section: units.every(unit => unit.section === section) ? section : undefined
+  };
+}
+
+/**
+ * Indica si un texto es solo un encabezado de sección sin contenido
+ * @param text - Texto del chunk
+ * @returns true si el texto no aporta nada más que el encabezado
+ */
+function isHeadingOnly(text: string): boolean {
+  return detectSectionHeading(text) !== null && !/:\s*\S/.test(text);
+}
+
+/**
+ * Limpia el texto extraído del PDF
+ * @param text - Texto a limpiar
+ * @returns Texto limpio
+ */
+function cleanText(text: string): string {
+  return text
+    // Normalizar saltos de línea
+    .replace(/\r\n/g, "\n")
+    // Eliminar múltiples espacios
+    .replace(/[ \t]+/g, " ")
+    // Eliminar líneas vacías múltiples
+    .replace(/\n{3,}/g, "\n\n")
+    // Eliminar caracteres de control
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, "")
+    // Trim cada línea
+    .split("\n")
+    .map(line => line.trim())
+    .join("\n")
+    .trim();
+}
+
+// ============================================
+// Configuración exportada
+// ============================================
+
+export const CHUNKING_STRATEGY_NAMES = Object.keys(CHUNKING_STRATEGIES) as ChunkingStrategyName[];
+export const DEFAULT_CHUNKING_CONFIG = resolveChunkingConfig(DEFAULT_CHUNKING_STRATEGY);
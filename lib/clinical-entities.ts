@@ -0,0 +1,397 @@
+import { GoogleGenAI } from "@google/genai";
+import { redactTexts, reidentifyText, PHIMapping } from "./phi-redaction";
+
+// ============================================
+// Tipos de entidad
+// ============================================
+
+export type ClinicalEntityType =
+  | "medication"
+  | "diagnosis"
+  | "allergy"
+  | "procedure"
+  | "vital_sign";
+
+export type ClinicalEntityExtractorName = "rules" | "gemini";
+
+const ENTITY_TYPE_LABELS: Record<ClinicalEntityType, string> = {
+  medication: "Medicación",
+  diagnosis: "Diagnóstico",
+  allergy: "Alergia",
+  procedure: "Procedimiento",
+  vital_sign: "Signo vital"
+};
+
+const ENTITY_EXTRACTION_CONFIG = {
+  chunksPerRequest: 10,     // Chunks enviados juntos al extractor por modelo
+  model: "gemini-2.0-flash"
+} as const;
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface ClinicalEntityAttributes {
+  dose?: string;            // Medicación: "500 mg"
+  route?: string;           // Medicación: "oral", "endovenosa"
+  frequency?: string;       // Medicación: "cada 8 hs"
+  value?: string;           // Signo vital: "120/80"
+  unit?: string;            // Signo vital: "mmHg"
+}
+
+export interface ClinicalEntity {
+  entityType: ClinicalEntityType;
+  name: string;             // Fármaco, diagnóstico, alérgeno, procedimiento o signo vital
+  attributes: ClinicalEntityAttributes;
+  chunkIndex: number;       // Chunk del que se extrajo
+  pageNumber: number;       // Página donde comienza ese chunk
+}
+
+// Chunk de origen (subconjunto de ProcessedChunk)
+export interface EntitySourceChunk {
+  content: string;
+  chunkIndex: number;
+  pageNumber: number;
+}
+
+interface ClinicalEntityExtractor {
+  description: string;
+  extract: (chunks: EntitySourceChunk[], mapping: PHIMapping) => Promise<ClinicalEntity[]>;
+}
+
+// ============================================
+// Registro de extractores
+// ============================================
+
+const CLINICAL_ENTITY_EXTRACTORS: Record<ClinicalEntityExtractorName, ClinicalEntityExtractor> = {
+  rules: {
+    description: "Patrones locales para rótulos frecuentes (no envía texto fuera del servidor)",
+    extract: async chunks => chunks.flatMap(extractByRules)
+  },
+  gemini: {
+    description: "Extracción con Gemini sobre el texto desidentificado",
+    extract: extractWithModel
+  }
+};
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Extrae medicación, diagnósticos, alergias, procedimientos y signos vitales
+ * de los chunks de un documento
+ * Las entidades repetidas por la superposición entre chunks se guardan una vez
+ *
+ * @param chunks - Chunks del documento con su índice y página
+ * @param mapping - Mapping de desidentificación del documento
+ * @param extractorName - Extractor a usar (default: CLINICAL_ENTITY_EXTRACTOR o "rules")
+ * @returns Entidades en orden de aparición
+ */
+export async function extractClinicalEntities(
+  chunks: EntitySourceChunk[],
+  mapping: PHIMapping = {},
+  extractorName: ClinicalEntityExtractorName = getDefaultExtractor()
+): Promise<ClinicalEntity[]> {
+  const entities = await CLINICAL_ENTITY_EXTRACTORS[extractorName].extract(chunks, mapping);
+  return removeOverlapDuplicates(entities);
+}
+
+/**
+ * Verifica si un string es un tipo de entidad válido
+ */
+export function isClinicalEntityType(value: unknown): value is ClinicalEntityType {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ENTITY_TYPE_LABELS, value);
+}
+
+/**
+ * Nombre para mostrar de un tipo de entidad
+ */
+export function getClinicalEntityTypeLabel(entityType: ClinicalEntityType): string {
+  return ENTITY_TYPE_LABELS[entityType];
+}
+
+// ============================================
+// Extractor por reglas
+// ============================================
+
+// Signos vitales: rótulo, valor y unidad por defecto
+const VITAL_SIGN_PATTERNS: { name: string; pattern: RegExp; unit: string }[] = [
+  {
+    name: "Tensión arterial",
+    pattern: /\b(?:t\.?a\.?|tensi[oó]n arterial|presi[oó]n arterial)\s*:?\s*(\d{2,3}\s*\/\s*\d{2,3})\s*(mm\s?hg)?/gi,
+    unit: "mmHg"
+  },
+  {
+    name: "Frecuencia cardíaca",
+    pattern: /\b(?:f\.?c\.?|frecuencia card[ií]aca)\s*:?\s*(\d{2,3})\s*(lpm|l\/m|x'|\/min|por minuto)?/gi,
+    unit: "lpm"
+  },
+  {
+    name: "Frecuencia respiratoria",
+    pattern: /\b(?:f\.?r\.?|frecuencia respiratoria)\s*:?\s*(\d{1,2})\s*(rpm|r\/m|x'|\/min|por minuto)?/gi,
+    unit: "rpm"
+  },
+  {
+    name: "Temperatura",
+    pattern: /(?:\bt°|\btemp(?:eratura)?\.?(?:\s+axilar)?)\s*:?\s*(\d{2}(?:[.,]\d{1,2})?)\s*(°\s?c)?/gi,
+    unit: "°C"
+  },
+  {
+    name: "Saturación de oxígeno",
+    pattern: /\b(?:sat(?:uraci[oó]n)?\.?\s*(?:de\s+)?(?:o2|ox[ií]geno)?|spo2)\s*:?\s*(\d{2,3})\s*(%)/gi,
+    unit: "%"
+  },
+  {
+    name: "Peso",
+    pattern: /\bpeso\s*:?\s*(\d{1,3}(?:[.,]\d{1,3})?)\s*(kg|kilos)\b/gi,
+    unit: "kg"
+  }
+];
+
+// "Alergias: penicilina, AINES" / "alérgico a la penicilina"
+const ALLERGY_PATTERN = /\b(?:alergias?(?:\s+conocidas)?\s*:|al[eé]rgic[oa]s?\s+a)\s*([^.;\n]+)/gi;
+const NEGATED_ALLERGY_PATTERN = /^(?:niega|no\b|sin\b|ninguna|desconoce|nada)/i;
+
+// "Diagnóstico de egreso: Neumonía aguda de la comunidad" (hasta el fin de la oración)
+const DIAGNOSIS_PATTERN = /\b(?:diagn[oó]sticos?(?:\s+(?:de\s+(?:ingreso|egreso|alta)|presuntivos?|principal|definitivos?|secundarios?))?|dx|impresi[oó]n diagn[oó]stica)\s*:\s*([^\n]+?)(?=\.(?:\s|$)|\n|$)/gi;
+
+// "Procedimiento realizado: Colecistectomía laparoscópica"
+const PROCEDURE_PATTERN = /\b(?:procedimientos?(?:\s+realizados?)?|cirug[ií]a\s+realizada|intervenci[oó]n(?:\s+quir[uú]rgica)?|operaci[oó]n\s+realizada)\s*:\s*([^\n]+?)(?=\.(?:\s|$)|\n|$)/gi;
+
+// "Amoxicilina 500 mg vía oral cada 8 hs"
+const MEDICATION_PATTERN = new RegExp(
+  String.raw`(?<![a-záéíóúñ])(?<name>(?:(?:[aá]cido|sulfato|cloruro|bicarbonato|carbonato|gluconato|insulina)\s+)?[a-záéíóúñ]{4,})\s+` +
+  String.raw`(?<dose>\d+(?:[.,]\d+)?\s*(?:mg|g|mcg|µg|ui|u|ml|meq|gotas|comp(?:rimidos?)?|amp(?:ollas?)?|puff)\b)(?!\s*\/)` +
+  String.raw`(?:\s*(?:v[ií]a\s+)?(?<route>oral|v\.o\.?|vo|endovenosa|e\.v\.?|ev|iv|intramuscular|i\.m\.?|im|subcut[aá]nea|s\.c\.?|sc|sublingual|inhalatoria|t[oó]pica|rectal)\b)?` +
+  String.raw`(?:\s*(?<frequency>(?:cada|c\/)\s*\d+\s*(?:hs|h|horas)\b|\d+\s*veces?\s+(?:al|por)\s+d[ií]a|una\s+vez\s+(?:al|por)\s+d[ií]a|por\s+d[ií]a|diari[oa]|en\s+ayunas|por\s+la\s+(?:mañana|noche)|dosis\s+[uú]nica|seg[uú]n\s+necesidad))?`,
+  "gi"
+);
+
+// Palabras que preceden a una dosis sin ser un fármaco
+const MEDICATION_STOPWORDS = new Set([
+  "dosis", "total", "cada", "recibe", "recibio", "recibió", "luego", "hasta", "desde",
+  "peso", "aproximadamente", "diuresis", "ingresos", "egresos", "volumen", "débito", "debito"
+]);
+
+/**
+ * Extractor por reglas: busca rótulos y patrones frecuentes en un chunk
+ */
+function extractByRules(chunk: EntitySourceChunk): ClinicalEntity[] {
+  const entities: ClinicalEntity[] = [];
+  const add = (entityType: ClinicalEntityType, name: string, attributes: ClinicalEntityAttributes = {}) => {
+    const cleaned = cleanEntityName(name);
+    if (cleaned) {
+      entities.push({
+        entityType,
+        name: cleaned,
+        attributes,
+        chunkIndex: chunk.chunkIndex,
+        pageNumber: chunk.pageNumber
+      });
+    }
+  };
+
+  for (const match of chunk.content.matchAll(MEDICATION_PATTERN)) {
+    const groups = match.groups ?? {};
+    if (MEDICATION_STOPWORDS.has(groups.name.split(/\s+/)[0].toLowerCase())) continue;
+    add("medication", groups.name, compactAttributes({
+      dose: groups.dose,
+      route: groups.route,
+      frequency: groups.frequency
+    }));
+  }
+
+  for (const match of chunk.content.matchAll(DIAGNOSIS_PATTERN)) {
+    splitList(match[1], /;|\s\d+[.)]\s/).forEach(name => add("diagnosis", name));
+  }
+
+  for (const match of chunk.content.matchAll(ALLERGY_PATTERN)) {
+    if (NEGATED_ALLERGY_PATTERN.test(match[1].trim())) continue;
+    splitList(match[1], /,|\sy\s/).forEach(name => add("allergy", name.replace(/^(?:la|el|los|las)\s+/i, "")));
+  }
+
+  for (const match of chunk.content.matchAll(PROCEDURE_PATTERN)) {
+    splitList(match[1], /;|\s\d+[.)]\s/).forEach(name => add("procedure", name));
+  }
+
+  for (const { name, pattern, unit } of VITAL_SIGN_PATTERNS) {
+    for (const match of chunk.content.matchAll(pattern)) {
+      add("vital_sign", name, {
+        value: match[1].replace(/\s+/g, ""),
+        unit: match[2]?.trim() || unit
+      });
+    }
+  }
+
+  return entities;
+}
+
+// ============================================
+// Extractor por modelo
+// ============================================
+
+/**
+ * Extractor por modelo: pide a Gemini las entidades de varios chunks por request
+ * El texto viaja desidentificado; las entidades se reidentifican al volver
+ * Si un grupo falla se usan las reglas para esos chunks
+ */
+async function extractWithModel(
+  chunks: EntitySourceChunk[],
+  mapping: PHIMapping
+): Promise<ClinicalEntity[]> {
+  const { texts } = redactTexts(chunks.map(chunk => chunk.content), { ...mapping });
+  const entities: ClinicalEntity[] = [];
+
+  // Secuencial: evita ráfagas de requests en documentos largos
+  for (let start = 0; start < chunks.length; start += ENTITY_EXTRACTION_CONFIG.chunksPerRequest) {
+    const batch = chunks.slice(start, start + ENTITY_EXTRACTION_CONFIG.chunksPerRequest);
+    const batchTexts = texts.slice(start, start + batch.length);
+
+    try {
+      entities.push(...await extractBatchWithModel(batch, batchTexts, mapping));
+    } catch (error) {
+      console.error("Error extracting clinical entities with model:", error);
+      entities.push(...batch.flatMap(extractByRules));
+    }
+  }
+
+  return entities;
+}
+
+// Se crea al primer uso: el extractor por defecto (reglas) no necesita GEMINI_API_KEY
+let geminiClient: GoogleGenAI | null = null;
+
+/**
+ * Envía un grupo de chunks desidentificados y valida la respuesta del modelo
+ */
+async function extractBatchWithModel(
+  batch: EntitySourceChunk[],
+  redactedTexts: string[],
+  mapping: PHIMapping
+): Promise<ClinicalEntity[]> {
+  const typeList = Object.entries(ENTITY_TYPE_LABELS)
+    .map(([entityType, label]) => `- ${entityType}: ${label}`)
+    .join("\n");
+
+  const chunkList = batch
+    .map((chunk, index) => `[Chunk ${chunk.chunkIndex}]\n${redactedTexts[index]}`)
+    .join("\n\n");
+
+  const prompt = `Extrae las entidades clínicas de los siguientes fragmentos de un legajo médico.
+Tipos:
+${typeList}
+
+Para medication incluye dose, route y frequency si figuran; para vital_sign incluye value y unit.
+No incluyas alergias negadas ni diagnósticos descartados. Copia los marcadores (ej: [NOMBRE_1]) tal cual.
+
+Responde solo con JSON: {"entities": [{"type": "<tipo>", "name": "...", "chunk": <número de chunk>, "dose": "...", "route": "...", "frequency": "...", "value": "...", "unit": "..."}]}
+
+Fragmentos:
+${chunkList}`;
+
+  geminiClient ??= new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
+
+  const response = await geminiClient.models.generateContent({
+    model: ENTITY_EXTRACTION_CONFIG.model,
+    contents: prompt,
+    config: { temperature: 0, responseMimeType: "application/json" }
+  });
+
+  const parsed = JSON.parse(response.text ?? "{}") as { entities?: unknown };
+  const items = Array.isArray(parsed.entities) ? parsed.entities as Record<string, unknown>[] : [];
+  const chunksByIndex = new Map(batch.map(chunk => [chunk.chunkIndex, chunk]));
+
+  return items.flatMap(item => {
+    const chunk = chunksByIndex.get(Number(item.chunk));
+    const name = typeof item.name === "string" ? cleanEntityName(reidentifyText(item.name, mapping)) : "";
+    if (!isClinicalEntityType(item.type) || !chunk || !name) return [];
+
+    const attribute = (key: keyof ClinicalEntityAttributes) =>
+      typeof item[key] === "string" ? reidentifyText(item[key] as string, mapping) : undefined;
+
+    return [{
+      entityType: item.type,
+      name,
+      attributes: compactAttributes({
+        dose: attribute("dose"),
+        route: attribute("route"),
+        frequency: attribute("frequency"),
+        value: attribute("value"),
+        unit: attribute("unit")
+      }),
+      chunkIndex: chunk.chunkIndex,
+      pageNumber: chunk.pageNumber
+    }];
+  });
+}
+
+// ============================================
+// Funciones auxiliares
+// ============================================
+
+/**
+ * Extractor configurado para el entorno
+ */
+function getDefaultExtractor(): ClinicalEntityExtractorName {
+  const configured = process.env.CLINICAL_ENTITY_EXTRACTOR;
+  return configured && Object.prototype.hasOwnProperty.call(CLINICAL_ENTITY_EXTRACTORS, configured)
+    ? configured as ClinicalEntityExtractorName
+    : "rules";
+}
+
+/**
+ * Quita las entidades que ya aparecieron en el chunk anterior
+ * (mismo texto repetido por la superposición entre chunks)
+ */
+function removeOverlapDuplicates(entities: ClinicalEntity[]): ClinicalEntity[] {
+  const keysByChunk = new Map<number, Set<string>>();
+  const getKey = (entity: ClinicalEntity) =>
+    [entity.entityType, entity.name.toLowerCase(), JSON.stringify(entity.attributes)].join("|");
+
+  return entities.filter(entity => {
+    const key = getKey(entity);
+    const previous = keysByChunk.get(entity.chunkIndex - 1);
+    const current = keysByChunk.get(entity.chunkIndex) ?? new Set<string>();
+    keysByChunk.set(entity.chunkIndex, current);
+
+    if (current.has(key)) return false;
+    current.add(key);
+    return !previous?.has(key);
+  });
+}
+
+/**
+ * Separa una lista de valores ("penicilina, AINES y látex")
+ */
+function splitList(text: string, separator: RegExp): string[] {
+  return text.split(separator).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * Limpia el nombre de una entidad (espacios, numeración y puntuación final)
+ */
+function cleanEntityName(name: string): string {
+  return name
+    .replace(/\s+/g, " ")
+    .replace(/^\d+[.)-]\s*/, "")
+    .replace(/[\s.,;:-]+$/, "")
+    .trim();
+}
+
+/**
+ * Omite los atributos vacíos
+ */
+function compactAttributes(attributes: ClinicalEntityAttributes): ClinicalEntityAttributes {
+  return Object.fromEntries(
+    Object.entries(attributes)
+      .map(([key, value]) => [key, typeof value === "string" ? value.trim() : value])
+      .filter(([, value]) => value)
+  );
+}
+
+// ============================================
+// Configuración exportada
+// ============================================
+
+export const CLINICAL_ENTITY_TYPE_NAMES = Object.keys(ENTITY_TYPE_LABELS) as ClinicalEntityType[];
@@ -0,0 +1,103 @@
+// ============================================
+// Secciones de la historia clínica
+// ============================================
+
+interface ClinicalSection {
+  name: string;       // Nombre canónico que se guarda en la metadata
+  pattern: RegExp;    // Se evalúa sobre el encabezado normalizado (minúsculas, sin acentos)
+}
+
+// Calificativos admitidos después del nombre de la sección ("Antecedentes personales")
+// Lista cerrada: "Evolución favorable" o "Tratamiento antibiótico" son texto, no encabezados
+const TIMING = "(al|de) (ingreso|egreso|alta)|al momento del alta";
+
+const CLINICAL_SECTIONS: ClinicalSection[] = [
+  { name: "Motivo de consulta", pattern: /^motivo de (consulta|internacion|ingreso)$/ },
+  { name: "Enfermedad actual", pattern: /^enfermedad actual$/ },
+  {
+    name: "Antecedentes",
+    pattern: /^antecedentes( (y )?(personales|familiares|heredofamiliares|patologicos|quirurgicos|toxicos|ginecoobstetricos|perinatales|clinicos|medicos|de (la )?enfermedad actual))*$/
+  },
+  { name: "Alergias", pattern: /^alergias?$/ },
+  { name: "Examen físico", pattern: new RegExp(`^examen fisico( (general|completo|${TIMING}))?$`) },
+  {
+    name: "Diagnóstico",
+    pattern: new RegExp(`^diagnosticos?( (presuntivos?|principal|principales|secundarios?|definitivos?|diferenciales?|${TIMING}))?$`)
+  },
+  { name: "Evolución", pattern: /^evolucion( (diaria|medica|clinica|de enfermeria|durante (la )?internacion))?$/ },
+  { name: "Epicrisis", pattern: /^epicrisis$/ },
+  { name: "Laboratorio", pattern: /^(laboratorio|(analisis|resultados) de laboratorio)$/ },
+  { name: "Estudios complementarios", pattern: /^(estudios complementarios|estudios por imagenes|imagenes)$/ },
+  { name: "Procedimientos", pattern: /^(procedimientos?( (realizados?|quirurgicos?))?|protocolo quirurgico)$/ },
+  { name: "Tratamiento", pattern: new RegExp(`^tratamiento( (actual|indicado|instaurado|recibido|farmacologico|${TIMING}))?$`) },
+  { name: "Medicación", pattern: new RegExp(`^(medicacion|medicamentos)( (habitual|actual|domiciliaria|${TIMING}))?$`) },
+  { name: "Indicaciones", pattern: new RegExp(`^indicaciones( (medicas|${TIMING}))?$`) }
+];
+
+// Un encabezado más largo que esto se considera texto corrido
+const MAX_HEADING_LENGTH = 50;
+
+// Puntuación de oración: una línea sin dos puntos ni mayúsculas que la tenga es texto corrido
+const SENTENCE_PUNCTUATION = /[.,;!?]/;
+
+// ============================================
+// Funciones de Detección
+// ============================================
+
+/**
+ * Normaliza un texto para comparar encabezados
+ * Quita acentos, mayúsculas, numeración y puntuación final
+ *
+ * @param text - Texto a normalizar
+ * @returns Texto normalizado
+ */
+function normalizeHeading(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/^[\d.\-)\s]+/, "")     // "1. ", "2) ", "- "
+    .replace(/[\s.:\-]+$/, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Indica si un texto tiene forma de encabezado: termina en dos puntos, está en mayúsculas
+ * o es una línea corta sin puntuación de oración ("Evolución", no "Evolución favorable.")
+ */
+function hasHeadingShape(heading: string, hasColon: boolean): boolean {
+  const text = heading.replace(/^[\d.\-)\s]+/, "").trim();
+
+  if (hasColon) return true;
+  if (/[a-záéíóúñü]/i.test(text) && text === text.toUpperCase()) return true;
+
+  return !SENTENCE_PUNCTUATION.test(text);
+}
+
+/**
+ * Detecta si una línea es el encabezado de una sección clínica
+ * Acepta encabezados solos ("EVOLUCIÓN") o con contenido en línea ("Diagnóstico: Neumonía")
+ *
+ * @param line - Línea de texto ya limpia
+ * @returns Nombre canónico de la sección o null si no es un encabezado
+ */
+export function detectSectionHeading(line: string): string | null {
+  const colonIndex = line.indexOf(":");
+  const heading = colonIndex >= 0 ? line.slice(0, colonIndex) : line;
+
+  if (heading.length === 0 || heading.length > MAX_HEADING_LENGTH || !hasHeadingShape(heading, colonIndex >= 0)) {
+    return null;
+  }
+
+  const normalized = normalizeHeading(heading);
+  const section = CLINICAL_SECTIONS.find(({ pattern }) => pattern.test(normalized));
+
+  return section?.name ?? null;
+}
+
+// ============================================
+// Configuración exportada
+// ============================================
+
+export const CLINICAL_SECTION_NAMES = CLINICAL_SECTIONS.map(section => section.name);
@@ -0,0 +1,282 @@
+import { DocumentChunk, MedicalDocument } from "./supabase";
+import { getDocumentById, getDocumentChunks } from "./document-storage";
+import { embedBatch, embedQuery, cosineSimilarity, getEmbeddingProvider, EmbeddingTarget } from "./embeddings";
+import { redactText, redactTexts, getPHIMapping } from "./phi-redaction";
+import { getDocumentTypeLabel, isDocumentType } from "./document-classification";
+
+// ============================================
+// Configuración
+// ============================================
+
+const CONTEXTUAL_EMBEDDING_CONFIG = {
+  titleMaxChars: 120,       // Títulos largos (o nombres de archivo) se recortan en el encabezado
+  defaultTopK: 5,           // Chunks recuperados por consulta al evaluar
+  maxEvaluationCases: 50    // Consultas por evaluación (cada una se vectoriza)
+};
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface ChunkContext {
+  title?: string;           // Título del documento o nombre del archivo
+  documentType?: string;    // Tipo documental legible (ej: "Epicrisis")
+  section?: string;         // Sección clínica del chunk
+  date?: string;            // Fecha del documento (YYYY-MM-DD)
+}
+
+export interface RetrievalEvaluationCase {
+  query: string;
+  relevantChunkIndexes: number[];   // chunk_index de los chunks que responden la consulta
+}
+
+export interface RetrievalMetrics {
+  recallAtK: number;        // Promedio de relevantes recuperados dentro del top K
+  hitRateAtK: number;       // Consultas con al menos un relevante en el top K
+  mrr: number;              // Promedio de 1 / posición del primer relevante
+}
+
+export interface ContextualRetrievalEvaluation {
+  documentId: string;
+  embeddingModel: string;
+  topK: number;
+  cases: number;
+  raw: RetrievalMetrics;          // Embeddings del contenido solo
+  contextual: RetrievalMetrics;   // Embeddings con el encabezado de contexto
+  gain: RetrievalMetrics;         // contextual - raw
+}
+
+export interface ContextualRetrievalEvaluationResult {
+  success: boolean;
+  evaluation?: ContextualRetrievalEvaluation;
+  error?: string;
+}
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Indica si los chunks se vectorizan con el encabezado de contexto
+ * Default: CONTEXTUAL_EMBEDDINGS=true en el entorno
+ *
+ * @param requested - Valor pedido para una subida (tiene prioridad sobre el entorno)
+ */
+export function isContextualEmbeddingEnabled(requested?: boolean): boolean {
+  return requested ?? process.env.CONTEXTUAL_EMBEDDINGS === "true";
+}
+
+/**
+ * Arma el encabezado que se antepone al chunk antes de vectorizarlo
+ * Ej: "[Documento: Internación 2024 | Tipo: Epicrisis | Sección: Evolución | Fecha: 2024-03-01]"
+ *
+ * @param context - Título, tipo, sección y fecha
+ * @returns Encabezado de una línea, o null si no hay ningún dato
+ */
+export function buildChunkContextHeader(context: ChunkContext): string | null {
+  const { titleMaxChars } = CONTEXTUAL_EMBEDDING_CONFIG;
+  const title = context.title?.trim();
+
+  const parts = [
+    title ? `Documento: ${title.length > titleMaxChars ? `${title.slice(0, titleMaxChars)}...` : title}` : null,
+    context.documentType ? `Tipo: ${context.documentType}` : null,
+    context.section ? `Sección: ${context.section}` : null,
+    context.date ? `Fecha: ${context.date}` : null
+  ].filter(Boolean);
+
+  return parts.length > 0 ? `[${parts.join(" | ")}]` : null;
+}
+
+/**
+ * Contexto de un chunk a partir de los datos del documento y de la metadata del chunk
+ *
+ * @param document - Título, nombre de archivo y fecha de creación
+ * @param chunk - Tipo documental y sección del chunk
+ */
+export function getChunkContext(
+  document: { title?: string; filename?: string; creationDate?: string },
+  chunk: { documentType?: string; section?: string }
+): ChunkContext {
+  return {
+    title: document.title || document.filename,
+    documentType: isDocumentType(chunk.documentType) ? getDocumentTypeLabel(chunk.documentType) : undefined,
+    section: chunk.section,
+    date: parseDocumentDate(document.creationDate)
+  };
+}
+
+/**
+ * Texto que se vectoriza: el encabezado (si hay) seguido del contenido
+ * El contenido se guarda sin el encabezado; este texto solo se usa para el embedding
+ *
+ * @param header - Encabezado de contexto o null
+ * @param content - Contenido del chunk
+ */
+export function withContextHeader(header: string | null | undefined, content: string): string {
+  return header ? `${header}\n${content}` : content;
+}
+
+/**
+ * Mide cuánto mejora la recuperación con el encabezado de contexto
+ * Vectoriza los chunks del documento con y sin encabezado y compara recall@K y MRR
+ * sobre consultas con los chunks relevantes ya etiquetados
+ *
+ * @param documentId - Documento sobre el que se evalúa
+ * @param cases - Consultas con sus chunks relevantes (por chunk_index)
+ * @param topK - Chunks recuperados por consulta
+ * @param target - Proveedor y dimensión (default: EMBEDDING_PROVIDER / EMBEDDING_DIMENSIONS)
+ */
+export async function evaluateContextualRetrieval(
+  documentId: string,
+  cases: RetrievalEvaluationCase[],
+  topK: number = CONTEXTUAL_EMBEDDING_CONFIG.defaultTopK,
+  target: Partial<EmbeddingTarget> = {}
+): Promise<ContextualRetrievalEvaluationResult> {
+  try {
+    if (cases.length === 0) {
+      return { success: false, error: "Se requiere al menos una consulta" };
+    }
+
+    if (cases.length > CONTEXTUAL_EMBEDDING_CONFIG.maxEvaluationCases) {
+      return {
+        success: false,
+        error: `Máximo ${CONTEXTUAL_EMBEDDING_CONFIG.maxEvaluationCases} consultas por evaluación`
+      };
+    }
+
+    const [document, chunks, mapping] = await Promise.all([
+      getDocumentById(documentId),
+      getDocumentChunks(documentId),
+      getPHIMapping(documentId)
+    ]);
+
+    if (!document) {
+      return { success: false, error: "Documento no encontrado" };
+    }
+
+    if (chunks.length === 0) {
+      return { success: false, error: "El documento no tiene chunks" };
+    }
+
+    const embedding = getEmbeddingProvider(target);
+
+    // Mismos textos que en la ingesta: desidentificados con el mapping del documento
+    const rawTexts = chunks.map(chunk => chunk.content);
+    const contextualTexts = chunks.map(chunk =>
+      withContextHeader(getStoredOrBuiltHeader(document, chunk), chunk.content)
+    );
+
+    const rawBatch = await embedBatch(redactTexts(rawTexts, mapping).texts, embedding);
+    const contextualBatch = await embedBatch(redactTexts(contextualTexts, mapping).texts, embedding);
+
+    const rawEmbeddings = rawBatch.embeddings.map(e => e.embedding);
+    const contextualEmbeddings = contextualBatch.embeddings.map(e => e.embedding);
+    const chunkIndexes = chunks.map((chunk, index) => chunk.chunk_index ?? index);
+
+    const rawRanks: number[][] = [];
+    const contextualRanks: number[][] = [];
+
+    for (const evaluationCase of cases) {
+      const queryEmbedding = await embedQuery(redactText(evaluationCase.query, mapping).text, embedding);
+      rawRanks.push(rankChunks(queryEmbedding, rawEmbeddings, chunkIndexes));
+      contextualRanks.push(rankChunks(queryEmbedding, contextualEmbeddings, chunkIndexes));
+    }
+
+    const raw = computeRetrievalMetrics(cases, rawRanks, topK);
+    const contextual = computeRetrievalMetrics(cases, contextualRanks, topK);
+
+    return {
+      success: true,
+      evaluation: {
+        documentId,
+        embeddingModel: embedding.model,
+        topK,
+        cases: cases.length,
+        raw,
+        contextual,
+        gain: {
+          recallAtK: round(contextual.recallAtK - raw.recallAtK),
+          hitRateAtK: round(contextual.hitRateAtK - raw.hitRateAtK),
+          mrr: round(contextual.mrr - raw.mrr)
+        }
+      }
+    };
+  } catch (error) {
+    console.error("Error in evaluateContextualRetrieval:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Error desconocido"
+    };
+  }
+}
+
+// ============================================
+// Funciones auxiliares
+// ============================================
+
+/**
+ * Fecha del documento en formato YYYY-MM-DD
+ * Acepta fechas PDF ("D:20240301120000-03'00'") e ISO
+ */
+function parseDocumentDate(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+
+  const pdfDate = value.match(/^D:(\d{4})(\d{2})(\d{2})/);
+  if (pdfDate) return `${pdfDate[1]}-${pdfDate[2]}-${pdfDate[3]}`;
+
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString().slice(0, 10);
+}
+
+/**
+ * Encabezado guardado en la ingesta o, si el chunk se vectorizó sin contexto, el que tendría
+ */
+function getStoredOrBuiltHeader(document: MedicalDocument, chunk: DocumentChunk): string | null {
+  if (chunk.context_header) return chunk.context_header;
+
+  return buildChunkContextHeader(getChunkContext(
+    { ...document.metadata, filename: document.filename },
+    chunk.metadata ?? {}
+  ));
+}
+
+/**
+ * chunk_index de todos los chunks ordenados por similitud con la consulta
+ */
+function rankChunks(queryEmbedding: number[], embeddings: number[][], chunkIndexes: number[]): number[] {
+  return embeddings
+    .map((embedding, index) => ({ chunkIndex: chunkIndexes[index], score: cosineSimilarity(queryEmbedding, embedding) }))
+    .sort((a, b) => b.score - a.score)
+    .map(ranked => ranked.chunkIndex);
+}
+
+function computeRetrievalMetrics(
+  cases: RetrievalEvaluationCase[],
+  rankings: number[][],
+  topK: number
+): RetrievalMetrics {
+  let recall = 0;
+  let hits = 0;
+  let reciprocalRank = 0;
+
+  cases.forEach((evaluationCase, index) => {
+    const relevant = new Set(evaluationCase.relevantChunkIndexes);
+    const retrieved = rankings[index].slice(0, topK);
+    const found = retrieved.filter(chunkIndex => relevant.has(chunkIndex)).length;
+    const firstRelevant = rankings[index].findIndex(chunkIndex => relevant.has(chunkIndex));
+
+    recall += relevant.size > 0 ? found / relevant.size : 0;
+    hits += found > 0 ? 1 : 0;
+    reciprocalRank += firstRelevant >= 0 ? 1 / (firstRelevant + 1) : 0;
+  });
+
+  return {
+    recallAtK: round(recall / cases.length),
+    hitRateAtK: round(hits / cases.length),
+    mrr: round(reciprocalRank / cases.length)
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,334 @@
+import { GoogleGenAI } from "@google/genai";
+import { redactText, PHIMapping } from "./phi-redaction";
+
+// ============================================
+// Tipos documentales
+// ============================================
+
+export type DocumentType =
+  | "discharge_summary"
+  | "lab_report"
+  | "imaging_report"
+  | "prescription"
+  | "surgical_protocol"
+  | "nursing_notes"
+  | "consent_form"
+  | "medical_record";       // Historia clínica general (sin un tipo más específico)
+
+export type DocumentClassifierName = "rules" | "gemini";
+
+interface DocumentTypeRule {
+  pattern: RegExp;          // Se evalúa sobre el texto normalizado (minúsculas, sin acentos)
+  weight: number;
+}
+
+interface DocumentTypeDefinition {
+  label: string;            // Nombre para mostrar al usuario
+  rules: DocumentTypeRule[];
+}
+
+const DOCUMENT_TYPES: Record<DocumentType, DocumentTypeDefinition> = {
+  discharge_summary: {
+    label: "Epicrisis / resumen de alta",
+    rules: [
+      { pattern: /\bepicrisis\b/g, weight: 3 },
+      { pattern: /\b(resumen|informe|carta) de alta\b|\balta hospitalaria\b/g, weight: 3 },
+      { pattern: /\bindicaciones al (alta|egreso)\b/g, weight: 2 },
+      { pattern: /\bfecha de (alta|egreso)\b/g, weight: 2 },
+      { pattern: /\bmotivo de (internacion|ingreso)\b/g, weight: 1 },
+      { pattern: /\bdias de internacion\b/g, weight: 1 }
+    ]
+  },
+  lab_report: {
+    label: "Informe de laboratorio",
+    rules: [
+      { pattern: /\bvalor(es)? de referencia\b/g, weight: 3 },
+      { pattern: /\bbioquimic[oa]\b|\bhemograma\b|\bhepatograma\b|\bionograma\b/g, weight: 2 },
+      { pattern: /\b(hematocrito|hemoglobina|leucocitos|plaquetas|glucemia|creatinina|uremia|colesterol|trigliceridos|tsh)\b/g, weight: 1 },
+      { pattern: /\b(mg|g)\/dl\b|\bmeq\/l\b|\bu\/l\b|\/mm3\b/g, weight: 1 },
+      { pattern: /\blaboratorio\b|\b(toma de )?muestra\b/g, weight: 1 }
+    ]
+  },
+  imaging_report: {
+    label: "Informe de imágenes",
+    rules: [
+      { pattern: /\binforme radiologico\b|\bdiagnostico por imagenes\b/g, weight: 3 },
+      { pattern: /\b(radiografia|rx|tomografia|tac|resonancia|rmn|ecografia|ecocardiograma|mamografia|centellograma|doppler)\b/g, weight: 2 },
+      { pattern: /\b(no )?se observa(n)?\b/g, weight: 1 },
+      { pattern: /\b(conclusion|impresion diagnostica|tecnica)\b|\bcontraste\b/g, weight: 1 }
+    ]
+  },
+  prescription: {
+    label: "Receta / prescripción",
+    rules: [
+      { pattern: /\breceta\b|\brp\s*[/:]|\bprescripcion\b/g, weight: 3 },
+      { pattern: /\b(comprimidos|capsulas|ampollas|jarabe|gotas)\b/g, weight: 1 },
+      { pattern: /\bcada \d+ ?(hs|horas|h)\b/g, weight: 1 },
+      { pattern: /\bvia (oral|endovenosa|intramuscular|subcutanea)\b|\bv\.?o\.?\b/g, weight: 1 },
+      { pattern: /\bposologia\b|\bfarmacia\b|\bdispensar\b/g, weight: 1 }
+    ]
+  },
+  surgical_protocol: {
+    label: "Protocolo quirúrgico",
+    rules: [
+      { pattern: /\b(protocolo|parte|foja) quirurgic[oa]\b/g, weight: 4 },
+      { pattern: /\b(cirujano|ayudante|instrumentador[a]?|anestesiologo|anestesia general)\b/g, weight: 2 },
+      { pattern: /\b(incision|sutura|hemostasia|dieresis|sintesis por planos)\b/g, weight: 2 },
+      { pattern: /\b(tiempo quirurgico|quirofano)\b/g, weight: 2 },
+      { pattern: /\bprocedimiento realizado\b/g, weight: 1 }
+    ]
+  },
+  nursing_notes: {
+    label: "Notas de enfermería",
+    rules: [
+      { pattern: /\b(hoja|registro|nota|notas|parte) de enfermeria\b/g, weight: 4 },
+      { pattern: /\benfermer[oa]\b|\benfermeria\b/g, weight: 2 },
+      { pattern: /\bcontrol(es)? de signos vitales\b|\bturno (manana|tarde|noche)\b/g, weight: 2 },
+      { pattern: /\b(higiene y confort|cambio de decubito|rotacion)\b/g, weight: 2 },
+      { pattern: /\b(balance hidrico|diuresis|se administra)\b/g, weight: 1 }
+    ]
+  },
+  consent_form: {
+    label: "Consentimiento informado",
+    rules: [
+      { pattern: /\bconsentimiento informado\b/g, weight: 5 },
+      { pattern: /\b(autorizo|doy mi consentimiento|he sido informad[oa]|declaro)\b/g, weight: 2 },
+      { pattern: /\bfirma (del paciente|y aclaracion)\b|\baclaracion\b/g, weight: 2 },
+      { pattern: /\briesgos\b|\brevocar\b/g, weight: 1 }
+    ]
+  },
+  medical_record: {
+    label: "Historia clínica",
+    rules: []
+  }
+};
+
+const CLASSIFICATION_CONFIG = {
+  minScore: 3,              // Puntaje mínimo para asignar un tipo específico
+  minShare: 0.4,            // Proporción mínima del puntaje total (legajos mixtos quedan como historia clínica)
+  maxMatchesPerRule: 3,     // Una palabra repetida muchas veces no domina el puntaje
+  fallbackType: "medical_record" as DocumentType,
+  modelInputChars: 4000,    // Texto enviado al clasificador por modelo
+  model: "gemini-2.0-flash"
+} as const;
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface DocumentClassification {
+  documentType: DocumentType;
+  confidence: number;       // 0 a 1 (0 si se usó el tipo por defecto)
+  classifier: DocumentClassifierName;
+}
+
+export interface ClassificationOptions {
+  phiMapping?: PHIMapping;  // Mapping del documento (incluye el membrete) para desidentificar antes de Gemini
+  filename?: string;        // Solo lo usan las reglas locales, nunca se envía al modelo
+}
+
+interface DocumentClassifier {
+  description: string;
+  classify: (text: string, options: ClassificationOptions) => Promise<DocumentClassification>;
+}
+
+// ============================================
+// Registro de clasificadores
+// ============================================
+
+const DOCUMENT_CLASSIFIERS: Record<DocumentClassifierName, DocumentClassifier> = {
+  rules: {
+    description: "Reglas y palabras clave locales (no envía texto fuera del servidor)",
+    classify: async (text, { filename }) => classifyByRules(withFilename(text, filename))
+  },
+  gemini: {
+    description: "Clasificación con Gemini sobre el texto desidentificado",
+    classify: classifyWithModel
+  }
+};
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Clasifica un texto (documento completo o sección) en un tipo documental
+ *
+ * @param text - Texto a clasificar
+ * @param options - Mapping PHI del documento y nombre del archivo (opcionales)
+ * @param classifierName - Clasificador a usar (default: DOCUMENT_CLASSIFIER o "rules")
+ * @returns Tipo documental y confianza
+ */
+export async function classifyDocument(
+  text: string,
+  options: ClassificationOptions = {},
+  classifierName: DocumentClassifierName = getDefaultClassifier()
+): Promise<DocumentClassification> {
+  return DOCUMENT_CLASSIFIERS[classifierName].classify(text, options);
+}
+
+/**
+ * Clasifica cada sección del documento
+ * Las secciones sin evidencia suficiente heredan el tipo del documento
+ *
+ * @param sections - Texto de cada sección
+ * @param documentClassification - Clasificación del documento completo
+ * @param phiMapping - Mapping PHI del documento, para desidentificar antes de Gemini
+ * @param classifierName - Clasificador a usar
+ * @returns Clasificación de cada sección, en el mismo orden
+ */
+export async function classifySections(
+  sections: string[],
+  documentClassification: DocumentClassification,
+  phiMapping: PHIMapping = {},
+  classifierName: DocumentClassifierName = getDefaultClassifier()
+): Promise<DocumentClassification[]> {
+  const results: DocumentClassification[] = [];
+
+  // Secuencial: con el clasificador por modelo evita ráfagas de requests
+  for (const section of sections) {
+    const result = await classifyDocument(section, { phiMapping }, classifierName);
+    results.push(
+      result.documentType === CLASSIFICATION_CONFIG.fallbackType
+        ? documentClassification
+        : result
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Verifica si un string es un tipo documental válido
+ */
+export function isDocumentType(value: unknown): value is DocumentType {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(DOCUMENT_TYPES, value);
+}
+
+/**
+ * Nombre para mostrar de un tipo documental
+ */
+export function getDocumentTypeLabel(documentType: DocumentType): string {
+  return DOCUMENT_TYPES[documentType].label;
+}
+
+// ============================================
+// Clasificadores
+// ============================================
+
+/**
+ * Clasificador por reglas: suma el peso de las palabras clave de cada tipo
+ */
+function classifyByRules(text: string): DocumentClassification {
+  const normalized = normalizeText(text);
+
+  const scores = Object.entries(DOCUMENT_TYPES).map(([documentType, definition]) => ({
+    documentType: documentType as DocumentType,
+    score: definition.rules.reduce((total, rule) => {
+      const matches = normalized.match(rule.pattern)?.length ?? 0;
+      return total + Math.min(matches, CLASSIFICATION_CONFIG.maxMatchesPerRule) * rule.weight;
+    }, 0)
+  }));
+
+  const totalScore = scores.reduce((total, { score }) => total + score, 0);
+  const best = scores.reduce((a, b) => (b.score > a.score ? b : a));
+
+  const share = totalScore > 0 ? best.score / totalScore : 0;
+
+  if (best.score < CLASSIFICATION_CONFIG.minScore || share < CLASSIFICATION_CONFIG.minShare) {
+    return { documentType: CLASSIFICATION_CONFIG.fallbackType, confidence: 0, classifier: "rules" };
+  }
+
+  return {
+    documentType: best.documentType,
+    confidence: Number(share.toFixed(2)),
+    classifier: "rules"
+  };
+}
+
+// Se crea al primer uso: con el clasificador por reglas no hace falta GEMINI_API_KEY
+let geminiClient: GoogleGenAI | null = null;
+
+/**
+ * Clasificador por modelo: pide a Gemini el tipo documental
+ * Solo envía el texto desidentificado con el mapping del documento, nunca el nombre del archivo
+ * Si el modelo falla o responde un tipo desconocido se usan las reglas
+ */
+async function classifyWithModel(
+  text: string,
+  { phiMapping = {}, filename }: ClassificationOptions
+): Promise<DocumentClassification> {
+  const excerpt = redactText(text.slice(0, CLASSIFICATION_CONFIG.modelInputChars), phiMapping).text;
+  const typeList = Object.entries(DOCUMENT_TYPES)
+    .map(([documentType, definition]) => `- ${documentType}: ${definition.label}`)
+    .join("\n");
+
+  const prompt = `Clasifica el siguiente documento médico en uno de estos tipos:
+${typeList}
+
+Responde solo con JSON: {"documentType": "<tipo>", "confidence": <0 a 1>}
+
+Documento:
+${excerpt}`;
+
+  try {
+    geminiClient ??= new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
+
+    const response = await geminiClient.models.generateContent({
+      model: CLASSIFICATION_CONFIG.model,
+      contents: prompt,
+      config: { temperature: 0, responseMimeType: "application/json" }
+    });
+
+    const parsed = JSON.parse(response.text ?? "{}") as { documentType?: unknown; confidence?: unknown };
+
+    if (isDocumentType(parsed.documentType)) {
+      return {
+        documentType: parsed.documentType,
+        confidence: typeof parsed.confidence === "number" ? parsed.confidence : 1,
+        classifier: "gemini"
+      };
+    }
+  } catch (error) {
+    console.error("Error classifying document with model:", error);
+  }
+
+  return classifyByRules(withFilename(text, filename));
+}
+
+// ============================================
+// Funciones auxiliares
+// ============================================
+
+/**
+ * Clasificador configurado para el entorno
+ */
+function getDefaultClassifier(): DocumentClassifierName {
+  const configured = process.env.DOCUMENT_CLASSIFIER;
+  return configured && Object.prototype.hasOwnProperty.call(DOCUMENT_CLASSIFIERS, configured)
+    ? configured as DocumentClassifierName
+    : "rules";
+}
+
+/**
+ * Antepone el nombre del archivo al texto (ej: "epicrisis.pdf" suma para discharge_summary)
+ */
+function withFilename(text: string, filename?: string): string {
+  return filename ? `${filename}\n${text}` : text;
+}
+
+/**
+ * Normaliza el texto para las reglas (minúsculas, sin acentos)
+ */
+function normalizeText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+// ============================================
+// Configuración exportada
+// ============================================
+
+export const DOCUMENT_TYPE_NAMES = Object.keys(DOCUMENT_TYPES) as DocumentType[];
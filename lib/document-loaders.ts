@@ -0,0 +1,363 @@
+// Worker setup must be imported BEFORE pdf-parse
+import { getPath } from "pdf-parse/worker";
+import { PDFParse } from "pdf-parse";
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+import mammoth from "mammoth";
+import { convert as htmlToText } from "html-to-text";
+import { recognizePages, OCR_RENDER_SCALE } from "./ocr";
+import { toRelativeBox, PageTextItem } from "./text-layout";
+
+// Configure worker for Next.js/serverless environment
+PDFParse.setWorker(getPath());
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface PageText {
+  pageNumber: number;     // Número de página (1-indexed)
+  text: string;
+  source: "text" | "ocr"; // Capa de texto del documento u OCR de la página escaneada
+  ocrConfidence?: number; // Confianza del OCR (0 a 1), solo si source es "ocr"
+  layout?: PageTextItem[];  // Posición del texto en la página, si el formato la informa (PDF)
+}
+
+export interface LoadedDocument {
+  pages: PageText[];
+  totalPages: number;
+  metadata: {
+    title?: string;
+    author?: string;
+    creationDate?: string;
+  };
+}
+
+interface DocumentLoader {
+  label: string;                  // Nombre del formato para mensajes al usuario
+  mimeTypes: string[];
+  extensions: string[];
+  load: (buffer: Buffer) => Promise<LoadedDocument>;
+}
+
+// ============================================
+// Registro de loaders
+// ============================================
+
+const DOCUMENT_LOADERS: DocumentLoader[] = [
+  {
+    label: "PDF",
+    mimeTypes: ["application/pdf"],
+    extensions: [".pdf"],
+    load: loadPdf
+  },
+  {
+    label: "DOCX",
+    mimeTypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    extensions: [".docx"],
+    load: loadDocx
+  },
+  {
+    label: "TXT",
+    mimeTypes: ["text/plain"],
+    extensions: [".txt"],
+    load: loadPlainText
+  },
+  {
+    label: "HTML",
+    mimeTypes: ["text/html"],
+    extensions: [".html", ".htm"],
+    load: loadHtml
+  },
+  {
+    label: "Imagen",
+    mimeTypes: ["image/png", "image/jpeg"],
+    extensions: [".png", ".jpg", ".jpeg"],
+    load: loadImage
+  }
+];
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Busca el loader correspondiente a un archivo
+ * Usa el mimetype y, si el navegador no lo informa, la extensión
+ *
+ * @param mimeType - Tipo de contenido del archivo
+ * @param filename - Nombre del archivo (opcional)
+ * @returns Loader o null si el formato no está soportado
+ */
+function getDocumentLoader(
+  mimeType: string,
+  filename?: string
+): DocumentLoader | null {
+  const byMimeType = DOCUMENT_LOADERS.find(loader => loader.mimeTypes.includes(mimeType));
+  if (byMimeType) return byMimeType;
+
+  const extension = filename?.toLowerCase().match(/\.[a-z0-9]+$/)?.[0];
+  if (!extension) return null;
+
+  return DOCUMENT_LOADERS.find(loader => loader.extensions.includes(extension)) ?? null;
+}
+
+/**
+ * Indica si un archivo tiene un formato soportado
+ *
+ * @param mimeType - Tipo de contenido del archivo
+ * @param filename - Nombre del archivo (opcional)
+ * @returns true si existe un loader para el archivo
+ */
+export function isSupportedDocument(mimeType: string, filename?: string): boolean {
+  return getDocumentLoader(mimeType, filename) !== null;
+}
+
+/**
+ * Resuelve el mimetype canónico de un archivo
+ * Algunos navegadores envían un type vacío para .docx o .htm
+ *
+ * @param mimeType - Tipo de contenido informado
+ * @param filename - Nombre del archivo (opcional)
+ * @returns Mimetype soportado o el recibido si no hay loader
+ */
+export function resolveMimeType(mimeType: string, filename?: string): string {
+  const loader = getDocumentLoader(mimeType, filename);
+  if (!loader || loader.mimeTypes.includes(mimeType)) return mimeType;
+  return loader.mimeTypes[0];
+}
+
+/**
+ * Convierte un archivo al modelo de texto por páginas usado para chunking
+ *
+ * @param buffer - Contenido del archivo
+ * @param mimeType - Tipo de contenido del archivo
+ * @param filename - Nombre del archivo (opcional, para inferir el formato)
+ * @returns Páginas con su texto y metadata del documento
+ */
+export async function loadDocument(
+  buffer: Buffer,
+  mimeType: string,
+  filename?: string
+): Promise<LoadedDocument> {
+  const loader = getDocumentLoader(mimeType, filename);
+
+  if (!loader) {
+    throw new Error(`Formato no soportado. Formatos aceptados: ${SUPPORTED_FORMAT_LABELS.join(", ")}`);
+  }
+
+  return loader.load(buffer);
+}
+
+// ============================================
+// Loaders
+// ============================================
+
+/**
+ * PDF: texto por página y OCR para las páginas escaneadas
+ */
+async function loadPdf(buffer: Buffer): Promise<LoadedDocument> {
+  // Crear instancia del parser con el buffer
+  const parser = new PDFParse({ data: buffer });
+
+  try {
+    // 1. Obtener información del documento
+    const info = await parser.getInfo();
+
+    // 2. Extraer texto del PDF página por página
+    const textResult = await parser.getText();
+    const layouts = await extractPdfLayout(buffer);
+    let pages: PageText[] = textResult.pages.map(page => ({
+      pageNumber: page.num,
+      text: page.text,
+      source: "text",
+      layout: layouts.get(page.num)
+    }));
+
+    // 3. Aplicar OCR a las páginas sin capa de texto (documentos escaneados)
+    const scannedPageNumbers = pages
+      .filter(page => page.text.trim().length === 0)
+      .map(page => page.pageNumber);
+
+    if (scannedPageNumbers.length > 0) {
+      try {
+        const ocrPages = await extractScannedPages(parser, scannedPageNumbers);
+        const ocrByPage = new Map(ocrPages.map(page => [page.pageNumber, page]));
+        pages = pages.map(page => ocrByPage.get(page.pageNumber) ?? page);
+      } catch (error) {
+        // Si falla el OCR continuamos con las páginas que sí tienen texto
+        console.error("Error applying OCR:", error);
+      }
+    }
+
+    return {
+      pages,
+      totalPages: info.total || 0,
+      metadata: {
+        title: info.info?.Title || undefined,
+        author: info.info?.Author || undefined,
+        creationDate: info.info?.CreationDate || undefined
+      }
+    };
+  } finally {
+    try {
+      await parser.destroy();
+    } catch {
+      // Ignorar errores al destruir
+    }
+  }
+}
+
+/**
+ * Obtiene la posición de cada fragmento de la capa de texto del PDF
+ * pdf-parse no expone posiciones, se leen directamente con pdf.js
+ * Si falla, el documento se procesa igual pero sin posiciones
+ * @param buffer - Contenido del PDF
+ * @returns Fragmentos de texto posicionados por número de página
+ */
+async function extractPdfLayout(buffer: Buffer): Promise<Map<number, PageTextItem[]>> {
+  const layouts = new Map<number, PageTextItem[]>();
+
+  try {
+    // Copia del buffer: pdf.js puede transferir el ArrayBuffer al worker
+    const document = await getDocument({ data: new Uint8Array(buffer) }).promise;
+
+    try {
+      for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+        const page = await document.getPage(pageNumber);
+        const viewport = page.getViewport({ scale: 1 });
+        const content = await page.getTextContent();
+
+        const items = content.items.flatMap(item => {
+          if (!("str" in item) || !item.str.trim()) return [];
+
+          // transform[4..5] es la línea base del texto en coordenadas PDF (origen abajo)
+          const [x, baseline] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+          return [{
+            text: item.str,
+            box: toRelativeBox(x, baseline - item.height, item.width, item.height, viewport.width, viewport.height)
+          }];
+        });
+
+        layouts.set(pageNumber, items);
+        page.cleanup();
+      }
+    } finally {
+      await document.destroy();
+    }
+  } catch (error) {
+    console.error("Error extracting PDF layout:", error);
+  }
+
+  return layouts;
+}
+
+/**
+ * Renderiza las páginas escaneadas y reconoce su texto con OCR
+ * @param parser - Parser del PDF ya cargado
+ * @param pageNumbers - Páginas sin capa de texto
+ * @returns Texto reconocido de cada página
+ */
+async function extractScannedPages(
+  parser: PDFParse,
+  pageNumbers: number[]
+): Promise<PageText[]> {
+  const screenshots = await parser.getScreenshot({
+    partial: pageNumbers,
+    scale: OCR_RENDER_SCALE,
+    imageBuffer: true,
+    imageDataUrl: false
+  });
+
+  const ocrResults = await recognizePages(
+    screenshots.pages.map(screenshot => ({
+      pageNumber: screenshot.pageNumber,
+      data: screenshot.data,
+      width: screenshot.width,
+      height: screenshot.height
+    }))
+  );
+
+  return ocrResults.map(result => ({
+    pageNumber: result.pageNumber,
+    text: result.text,
+    source: "ocr",
+    ocrConfidence: result.confidence,
+    layout: result.lines
+  }));
+}
+
+/**
+ * DOCX (cartas de alta de Word): Word no guarda páginas, se usa una sola
+ */
+async function loadDocx(buffer: Buffer): Promise<LoadedDocument> {
+  const { value } = await mammoth.extractRawText({ buffer });
+  return singlePageDocument(value);
+}
+
+/**
+ * TXT: el carácter de salto de página (\f) separa páginas si existe
+ */
+async function loadPlainText(buffer: Buffer): Promise<LoadedDocument> {
+  const pages: PageText[] = buffer
+    .toString("utf-8")
+    .split("\f")
+    .map((text, index) => ({ pageNumber: index + 1, text, source: "text" }));
+
+  return { pages, totalPages: pages.length, metadata: {} };
+}
+
+/**
+ * HTML exportado de la historia clínica electrónica
+ * Las tablas y listas se convierten a texto con saltos de línea
+ */
+async function loadHtml(buffer: Buffer): Promise<LoadedDocument> {
+  const html = buffer.toString("utf-8");
+  const title = html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1]?.trim();
+
+  const text = htmlToText(html, {
+    wordwrap: false,
+    selectors: [
+      { selector: "a", options: { ignoreHref: true } },
+      { selector: "img", format: "skip" },
+      { selector: "title", format: "skip" }
+    ]
+  });
+
+  const loaded = singlePageDocument(text);
+  return { ...loaded, metadata: { title: title || undefined } };
+}
+
+/**
+ * Imagen (página fotografiada): todo el texto proviene de OCR
+ */
+async function loadImage(buffer: Buffer): Promise<LoadedDocument> {
+  const [result] = await recognizePages([{ pageNumber: 1, data: buffer }]);
+
+  return {
+    pages: [{
+      pageNumber: 1,
+      text: result?.text ?? "",
+      source: "ocr",
+      ocrConfidence: result?.confidence ?? 0
+    }],
+    totalPages: 1,
+    metadata: {}
+  };
+}
+
+/**
+ * Crea un documento de una sola página a partir de texto plano
+ */
+function singlePageDocument(text: string): LoadedDocument {
+  return {
+    pages: [{ pageNumber: 1, text, source: "text" }],
+    totalPages: 1,
+    metadata: {}
+  };
+}
+
+// ============================================
+// Configuración exportada
+// ============================================
+
+export const SUPPORTED_FORMAT_LABELS = DOCUMENT_LOADERS.map(loader => loader.label);
@@ -1,5 +1,11 @@
-import { supabaseAdmin, MedicalDocument, DocumentChunk } from "./supabase";
+import { createHash } from "crypto";
+import { supabaseAdmin, MedicalDocument, DocumentChunk, DocumentLabResult, DocumentClinicalEntity, IngestionJob } from "./supabase";
 import { EmbeddedChunk } from "./pdf-processing";
+import { LabResult } from "./lab-results";
+import { ClinicalEntity, ClinicalEntityType } from "./clinical-entities";
+import { ChunkingConfig, isSameChunkingConfig } from "./chunking";
+import { DocumentBoilerplate } from "./boilerplate";
+import { DocumentClassification } from "./document-classification";
 
 // ============================================
 // Interfaces
@@ -8,6 +14,7 @@ import { EmbeddedChunk } from "./pdf-processing";
 export interface SaveDocumentParams {
   filename: string;
   userId?: string;
+  previousVersionId?: string;     // Documento del mismo registro que esta versión reemplaza
   metadata?: {
     title?: string;
     author?: string;
@@ -15,12 +22,18 @@ export interface SaveDocumentParams {
     totalPages?: number;
     totalChunks?: number;
     storagePath?: string;
+    chunking?: ChunkingConfig;
+    boilerplate?: DocumentBoilerplate;
+    classification?: DocumentClassification;
+    contentHash?: string;
+    contextualEmbeddings?: boolean;
   };
 }
 
 export interface SaveDocumentResult {
   success: boolean;
   documentId?: string;
+  version?: number;
   error?: string;
 }
 
@@ -30,28 +43,62 @@ export interface SaveChunksResult {
   error?: string;
 }
 
+export interface SaveLabResultsResult {
+  success: boolean;
+  savedCount: number;
+  error?: string;
+}
+
+export interface SaveClinicalEntitiesResult {
+  success: boolean;
+  savedCount: number;
+  error?: string;
+}
+
 // ============================================
 // Funciones de Almacenamiento
 // ============================================
 
 /**
  * Guarda un documento en la tabla medical_documents
+ * Con previousVersionId se guarda como la versión siguiente a la última del registro
  * 
  * @param params - Parámetros del documento
- * @returns Resultado con el ID del documento creado
+ * @returns Resultado con el ID del documento creado y su número de versión
  */
 export async function saveDocument(
   params: SaveDocumentParams
 ): Promise<SaveDocumentResult> {
   try {
+    let versioning = {};
+    
+    if (params.previousVersionId) {
+      const versions = await getDocumentVersions(params.previousVersionId);
+      const latest = versions[versions.length - 1];
+      
+      if (!latest) {
+        return {
+          success: false,
+          error: "No se encontró la versión anterior del documento"
+        };
+      }
+      
+      versioning = {
+        record_id: latest.record_id,
+        version: latest.version + 1,
+        previous_version_id: latest.id
+      };
+    }
+    
     const { data, error } = await supabaseAdmin
       .from("medical_documents")
       .insert({
         filename: params.filename,
         user_id: params.userId || null,
-        metadata: params.metadata || null
+        metadata: params.metadata || null,
+        ...versioning
       })
-      .select("id")
+      .select("id, version")
       .single();
     
     if (error) {
@@ -64,7 +111,8 @@ export async function saveDocument(
     
     return {
       success: true,
-      documentId: data.id
+      documentId: data.id,
+      version: data.version
     };
   } catch (error) {
     console.error("Error in saveDocument:", error);
@@ -80,20 +128,30 @@ export async function saveDocument(
  * 
  * @param documentId - ID del documento padre
  * @param chunks - Chunks con embeddings generados
+ * @param embedding - Modelo y dimensión con los que se generaron los vectores
  * @returns Resultado con el número de chunks guardados
  */
 export async function saveChunksWithEmbeddings(
   documentId: string,
-  chunks: EmbeddedChunk[]
+  chunks: EmbeddedChunk[],
+  embedding: { model: string; dimensions: number }
 ): Promise<SaveChunksResult> {
   try {
     // Preparar datos para inserción
     const chunksToInsert = chunks.map(chunk => ({
       document_id: documentId,
       content: chunk.content,
+      context_header: chunk.contextHeader,
       embedding: chunk.embedding,
+      embedding_model: embedding.model,
+      embedding_dimensions: embedding.dimensions,
       page_number: chunk.pageNumber,
+      end_page_number: chunk.endPageNumber,
       chunk_index: chunk.chunkIndex,
+      token_count: chunk.tokenCount,
+      char_start: chunk.charStart,
+      char_end: chunk.charEnd,
+      bounding_boxes: chunk.boundingBoxes,
       metadata: chunk.metadata
     }));
     
@@ -125,6 +183,116 @@ export async function saveChunksWithEmbeddings(
   }
 }
 
+/**
+ * Guarda las filas de laboratorio extraídas en la tabla document_lab_results
+ * 
+ * @param documentId - ID del documento padre
+ * @param results - Filas estructuradas del documento
+ * @returns Resultado con el número de filas guardadas
+ */
+export async function saveLabResults(
+  documentId: string,
+  results: LabResult[]
+): Promise<SaveLabResultsResult> {
+  // Documentos sin tablas de laboratorio
+  if (results.length === 0) {
+    return { success: true, savedCount: 0 };
+  }
+  
+  try {
+    const rowsToInsert = results.map(result => ({
+      document_id: documentId,
+      row_index: result.rowIndex,
+      page_number: result.pageNumber,
+      analyte: result.analyte,
+      value: result.value,
+      numeric_value: result.numericValue,
+      unit: result.unit,
+      reference_range: result.referenceRange,
+      flag: result.flag,
+      sample_date: result.sampleDate
+    }));
+    
+    const { error } = await supabaseAdmin
+      .from("document_lab_results")
+      .insert(rowsToInsert);
+    
+    if (error) {
+      console.error("Error saving lab results:", error);
+      return {
+        success: false,
+        savedCount: 0,
+        error: `Error al guardar resultados de laboratorio: ${error.message}`
+      };
+    }
+    
+    return {
+      success: true,
+      savedCount: results.length
+    };
+  } catch (error) {
+    console.error("Error in saveLabResults:", error);
+    return {
+      success: false,
+      savedCount: 0,
+      error: error instanceof Error ? error.message : "Error desconocido"
+    };
+  }
+}
+
+/**
+ * Guarda las entidades clínicas extraídas en la tabla document_clinical_entities
+ * 
+ * @param documentId - ID del documento padre
+ * @param entities - Entidades con su chunk y página de origen
+ * @returns Resultado con el número de entidades guardadas
+ */
+export async function saveClinicalEntities(
+  documentId: string,
+  entities: ClinicalEntity[]
+): Promise<SaveClinicalEntitiesResult> {
+  if (entities.length === 0) {
+    return { success: true, savedCount: 0 };
+  }
+  
+  try {
+    const entitiesToInsert = entities.map((entity, index) => ({
+      document_id: documentId,
+      entity_index: index,
+      entity_type: entity.entityType,
+      name: entity.name,
+      attributes: entity.attributes,
+      chunk_index: entity.chunkIndex,
+      page_number: entity.pageNumber
+    }));
+    
+    const { error } = await supabaseAdmin
+      .from("document_clinical_entities")
+      .insert(entitiesToInsert);
+    
+    if (error) {
+      console.error("Error saving clinical entities:", error);
+      return {
+        success: false,
+        savedCount: 0,
+        error: `Error al guardar entidades clínicas: ${error.message}`
+      };
+    }
+    
+    return {
+      success: true,
+      savedCount: entities.length
+    };
+  } catch (error) {
+    console.error("Error in saveClinicalEntities:", error);
+    return {
+      success: false,
+      savedCount: 0,
+      error: error instanceof Error ? error.message : "Error desconocido"
+    };
+  }
+}
+
 /**
  * Obtiene un documento por su ID
  * 
@@ -153,6 +321,37 @@ export async function getDocumentById(
   }
 }
 
+/**
+ * Obtiene todas las versiones del registro al que pertenece un documento
+ * 
+ * @param documentId - ID de cualquier versión del registro
+ * @returns Versiones ordenadas de la más antigua a la más reciente
+ */
+export async function getDocumentVersions(
+  documentId: string
+): Promise<MedicalDocument[]> {
+  const document = await getDocumentById(documentId);
+  if (!document) return [];
+  
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("medical_documents")
+      .select("*")
+      .eq("record_id", document.record_id)
+      .order("version", { ascending: true });
+    
+    if (error) {
+      console.error("Error getting document versions:", error);
+      return [];
+    }
+    
+    return (data as MedicalDocument[]) || [];
+  } catch (error) {
+    console.error("Error in getDocumentVersions:", error);
+    return [];
+  }
+}
+
 /**
  * Obtiene todos los chunks de un documento
  * 
@@ -181,9 +380,197 @@ export async function getDocumentChunks(
   }
 }
 
+/**
+ * Calcula el hash SHA-256 del contenido de un archivo
+ * 
+ * @param file - Contenido del archivo
+ * @returns Hash en hexadecimal
+ */
+export function computeContentHash(file: Buffer): string {
+  return createHash("sha256").update(file).digest("hex");
+}
+
+/**
+ * Busca un documento ya procesado con el mismo contenido y las mismas opciones
+ * Solo cuenta una ingesta terminada: el hash se guarda con el documento, antes que los chunks
+ * Si hay varios (reprocesamiento forzado) devuelve el más reciente
+ * 
+ * @param contentHash - SHA-256 del archivo
+ * @param options - Chunking y encabezado de contexto pedidos para la subida
+ * @returns Documento o null si no existe
+ */
+export async function findDocumentByContentHash(
+  contentHash: string,
+  options: { chunking: ChunkingConfig; contextualEmbeddings: boolean }
+): Promise<MedicalDocument | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("ingestion_jobs")
+      .select("document_id, options")
+      .eq("stage", "done")
+      .eq("options->>contentHash", contentHash)
+      .not("document_id", "is", null)
+      .order("updated_at", { ascending: false });
+    
+    if (error) {
+      console.error("Error finding document by content hash:", error);
+      return null;
+    }
+    
+    const matching = (data as Pick<IngestionJob, "document_id" | "options">[] || []).filter(job =>
+      (job.options?.contextualEmbeddings ?? false) === options.contextualEmbeddings &&
+      isSameChunkingConfig(job.options?.chunking, options.chunking)
+    );
+    
+    // El documento pudo borrarse después de la ingesta
+    for (const job of matching) {
+      const document = await getDocumentById(job.document_id!);
+      if (document) return document;
+    }
+    
+    return null;
+  } catch (error) {
+    console.error("Error in findDocumentByContentHash:", error);
+    return null;
+  }
+}
+
+/**
+ * Registra que un usuario subió un documento que ya existía
+ * Le da el mismo acceso que al dueño (ver canUserAccessDocument)
+ * 
+ * @param documentId - ID del documento reutilizado
+ * @param userId - ID del usuario que lo subió
+ * @returns true si se registró correctamente
+ */
+export async function recordDocumentUpload(
+  documentId: string,
+  userId: string
+): Promise<boolean> {
+  try {
+    const { error } = await supabaseAdmin
+      .from("document_uploads")
+      .upsert({
+        document_id: documentId,
+        user_id: userId,
+        uploaded_at: new Date().toISOString()
+      });
+    
+    if (error) {
+      console.error("Error recording document upload:", error);
+      return false;
+    }
+    
+    return true;
+  } catch (error) {
+    console.error("Error in recordDocumentUpload:", error);
+    return false;
+  }
+}
+
+/**
+ * Verifica si un usuario puede ver el contenido completo de un documento
+ * Puede el dueño y quien haya subido el mismo archivo
+ * 
+ * @param documentId - ID del documento
+ * @param userId - ID del usuario
+ * @returns true si tiene acceso
+ */
+export async function canUserAccessDocument(
+  documentId: string,
+  userId: string
+): Promise<boolean> {
+  const document = await getDocumentById(documentId);
+  if (!document) return false;
+  if (document.user_id === userId) return true;
+  
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("document_uploads")
+      .select("document_id")
+      .eq("document_id", documentId)
+      .eq("user_id", userId)
+      .maybeSingle();
+    
+    if (error) {
+      console.error("Error checking document access:", error);
+      return false;
+    }
+    
+    return data !== null;
+  } catch (error) {
+    console.error("Error in canUserAccessDocument:", error);
+    return false;
+  }
+}
+
+/**
+ * Obtiene las filas de laboratorio de un documento
+ * 
+ * @param documentId - ID del documento
+ * @returns Array de filas en orden de aparición
+ */
+export async function getDocumentLabResults(
+  documentId: string
+): Promise<DocumentLabResult[]> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("document_lab_results")
+      .select("*")
+      .eq("document_id", documentId)
+      .order("row_index", { ascending: true });
+    
+    if (error) {
+      console.error("Error getting lab results:", error);
+      return [];
+    }
+    
+    return (data as DocumentLabResult[]) || [];
+  } catch (error) {
+    console.error("Error in getDocumentLabResults:", error);
+    return [];
+  }
+}
+
+/**
+ * Obtiene las entidades clínicas de un documento
+ * 
+ * @param documentId - ID del documento
+ * @param entityType - Solo entidades de este tipo (opcional)
+ * @returns Array de entidades en orden de aparición
+ */
+export async function getDocumentClinicalEntities(
+  documentId: string,
+  entityType?: ClinicalEntityType
+): Promise<DocumentClinicalEntity[]> {
+  try {
+    let query = supabaseAdmin
+      .from("document_clinical_entities")
+      .select("*")
+      .eq("document_id", documentId);
+    
+    if (entityType) {
+      query = query.eq("entity_type", entityType);
+    }
+    
+    const { data, error } = await query
+      .order("entity_index", { ascending: true });
+    
+    if (error) {
+      console.error("Error getting clinical entities:", error);
+      return [];
+    }
+    
+    return (data as DocumentClinicalEntity[]) || [];
+  } catch (error) {
+    console.error("Error in getDocumentClinicalEntities:", error);
+    return [];
+  }
+}
+
 /**
  * Elimina un documento y todos sus chunks asociados
- * La eliminación de chunks es automática por CASCADE
+ * La eliminación de chunks, filas de laboratorio y entidades es automática por CASCADE
  * 
  * @param documentId - ID del documento a eliminar
  * @returns true si se eliminó correctamente
@@ -235,12 +622,6 @@ export async function getUserDocuments(
   }
 }
 
-/**
- * Obtiene todos los documentos (sin filtro de usuario)
- * Útil para demo o admin
- * 
- * @returns Array de documentos
- */
 /**
  * Sube un archivo al bucket 'files' de Supabase Storage
  * 
@@ -308,6 +689,12 @@ export async function deleteFileFromStorage(
   }
 }
 
+/**
+ * Obtiene todos los documentos (sin filtro de usuario)
+ * Útil para demo o admin
+ * 
+ * @returns Array de documentos
+ */
 export async function getAllDocuments(): Promise<MedicalDocument[]> {
   try {
     const { data, error } = await supabaseAdmin
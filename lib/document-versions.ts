@@ -0,0 +1,335 @@
+import { DocumentChunk, MedicalDocument } from "./supabase";
+import { getDocumentById, getDocumentChunks } from "./document-storage";
+
+// ============================================
+// Configuración
+// ============================================
+
+const VERSION_DIFF_CONFIG = {
+  changedSimilarityThreshold: 0.5,  // Similitud mínima (Jaccard de palabras) para considerar un chunk modificado
+  contextMaxChanges: 20,            // Cambios que se incluyen en el contexto del chat
+  contextMaxChars: 600              // Largo máximo de cada fragmento en el contexto del chat
+};
+
+// Chunks sin sección clínica detectada
+const NO_SECTION = "Sin sección";
+
+// Preguntas sobre cambios entre versiones ("¿qué cambió desde la versión anterior?")
+const VERSION_CHANGE_QUESTION_PATTERN =
+  /(qu[eé]\s+(cambi|se\s+modific|hay\s+de\s+nuevo)|cambios|diferencias?|versi[oó]n\s+(anterior|previa)|[uú]ltima\s+(versi[oó]n|actualizaci[oó]n))/i;
+
+// ============================================
+// Interfaces
+// ============================================
+
+export type VersionChangeStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface VersionChunkRef {
+  chunkIndex: number;
+  pageNumber: number | null;
+  content: string;
+}
+
+export interface ChunkDiff {
+  status: Exclude<VersionChangeStatus, "unchanged">;
+  section: string;
+  base: VersionChunkRef | null;       // null si el chunk es nuevo
+  target: VersionChunkRef | null;     // null si el chunk fue eliminado
+  similarity: number | null;          // Solo para chunks modificados
+}
+
+export interface SectionDiff {
+  section: string;
+  status: VersionChangeStatus;
+  addedChunks: number;
+  removedChunks: number;
+  changedChunks: number;
+}
+
+export interface VersionSummary {
+  documentId: string;
+  version: number;
+  filename: string;
+  uploadedAt: string;
+}
+
+export interface DocumentVersionDiff {
+  recordId: string;
+  base: VersionSummary;
+  target: VersionSummary;
+  sections: SectionDiff[];
+  chunks: ChunkDiff[];                // Solo chunks agregados, eliminados o modificados
+  stats: {
+    added: number;
+    removed: number;
+    changed: number;
+    unchanged: number;
+  };
+}
+
+export interface DocumentVersionDiffResult {
+  success: boolean;
+  diff?: DocumentVersionDiff;
+  error?: string;
+}
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Compara dos versiones del mismo registro
+ *
+ * @param baseId - Versión de referencia (normalmente la anterior)
+ * @param targetId - Versión a comparar (normalmente la actual)
+ * @returns Secciones y chunks agregados, eliminados o modificados
+ */
+export async function diffDocumentVersions(
+  baseId: string,
+  targetId: string
+): Promise<DocumentVersionDiffResult> {
+  try {
+    const [base, target] = await Promise.all([getDocumentById(baseId), getDocumentById(targetId)]);
+
+    if (!base || !target) {
+      return { success: false, error: "Documento no encontrado" };
+    }
+
+    if (base.record_id !== target.record_id) {
+      return { success: false, error: "Los documentos no son versiones del mismo registro" };
+    }
+
+    const [baseChunks, targetChunks] = await Promise.all([
+      getDocumentChunks(baseId),
+      getDocumentChunks(targetId)
+    ]);
+
+    const chunks = diffChunks(baseChunks, targetChunks);
+    const unchanged = targetChunks.length - chunks.filter(c => c.status !== "removed").length;
+
+    return {
+      success: true,
+      diff: {
+        recordId: target.record_id,
+        base: toVersionSummary(base),
+        target: toVersionSummary(target),
+        sections: diffSections(baseChunks, targetChunks, chunks),
+        chunks,
+        stats: {
+          added: chunks.filter(c => c.status === "added").length,
+          removed: chunks.filter(c => c.status === "removed").length,
+          changed: chunks.filter(c => c.status === "changed").length,
+          unchanged
+        }
+      }
+    };
+  } catch (error) {
+    console.error("Error in diffDocumentVersions:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Error desconocido"
+    };
+  }
+}
+
+/**
+ * Indica si el mensaje pregunta por los cambios respecto de una versión anterior
+ *
+ * @param message - Mensaje del usuario
+ */
+export function isVersionChangeQuestion(message: string): boolean {
+  return VERSION_CHANGE_QUESTION_PATTERN.test(message);
+}
+
+/**
+ * Formatea las diferencias como contexto para el LLM
+ *
+ * @param diff - Diferencias entre versiones
+ * @returns Texto con el resumen por sección y los fragmentos modificados
+ */
+export function formatVersionDiffAsContext(diff: DocumentVersionDiff): string {
+  const { contextMaxChanges, contextMaxChars } = VERSION_DIFF_CONFIG;
+  const truncate = (text: string) =>
+    text.length > contextMaxChars ? `${text.slice(0, contextMaxChars)}...` : text;
+
+  const header = `[Cambios entre la versión ${diff.base.version} (${diff.base.uploadedAt.slice(0, 10)}) ` +
+    `y la versión ${diff.target.version} (${diff.target.uploadedAt.slice(0, 10)})]`;
+
+  if (diff.chunks.length === 0) {
+    return `${header}\nNo hay diferencias en el contenido entre ambas versiones.`;
+  }
+
+  const sections = diff.sections
+    .filter(section => section.status !== "unchanged")
+    .map(section => `- ${section.section}: ${SECTION_STATUS_LABELS[section.status]}`);
+
+  const changes = diff.chunks.slice(0, contextMaxChanges).map(change => {
+    switch (change.status) {
+      case "added":
+        return `(Agregado en ${change.section})\n${truncate(change.target!.content)}`;
+      case "removed":
+        return `(Eliminado de ${change.section})\n${truncate(change.base!.content)}`;
+      case "changed":
+        return `(Modificado en ${change.section})\nAntes: ${truncate(change.base!.content)}\nAhora: ${truncate(change.target!.content)}`;
+    }
+  });
+
+  const omitted = diff.chunks.length - changes.length;
+
+  return [
+    header,
+    `Secciones afectadas:\n${sections.join("\n")}`,
+    ...changes,
+    ...(omitted > 0 ? [`(${omitted} cambios más no incluidos)`] : [])
+  ].join("\n\n");
+}
+
+// ============================================
+// Funciones auxiliares
+// ============================================
+
+const SECTION_STATUS_LABELS: Record<VersionChangeStatus, string> = {
+  added: "sección nueva",
+  removed: "sección eliminada",
+  changed: "contenido modificado",
+  unchanged: "sin cambios"
+};
+
+/**
+ * Empareja los chunks de ambas versiones
+ * 1. Contenido idéntico (sin importar la posición): sin cambios
+ * 2. Dentro de la misma sección, el par más parecido por encima del umbral: modificado
+ * 3. El resto: agregado (solo en target) o eliminado (solo en base)
+ */
+function diffChunks(baseChunks: DocumentChunk[], targetChunks: DocumentChunk[]): ChunkDiff[] {
+  // 1. Contenido idéntico
+  const unmatchedBase = new Map<string, DocumentChunk[]>();
+  for (const chunk of baseChunks) {
+    const key = normalizeContent(chunk.content);
+    unmatchedBase.set(key, [...(unmatchedBase.get(key) ?? []), chunk]);
+  }
+
+  const remainingTarget = targetChunks.filter(chunk => {
+    const candidates = unmatchedBase.get(normalizeContent(chunk.content));
+    return !candidates?.shift();
+  });
+  const remainingBase = [...unmatchedBase.values()].flat();
+
+  // 2. Chunks modificados: pares más parecidos de la misma sección
+  const pairs: { base: DocumentChunk; target: DocumentChunk; similarity: number }[] = [];
+  const baseWords = new Map(remainingBase.map(chunk => [chunk, toWordSet(chunk.content)]));
+
+  for (const target of remainingTarget) {
+    const targetWords = toWordSet(target.content);
+    for (const base of remainingBase) {
+      if (getSection(base) !== getSection(target)) continue;
+      const similarity = jaccardSimilarity(baseWords.get(base)!, targetWords);
+      if (similarity >= VERSION_DIFF_CONFIG.changedSimilarityThreshold) {
+        pairs.push({ base, target, similarity });
+      }
+    }
+  }
+
+  const pairedBase = new Set<DocumentChunk>();
+  const pairedTarget = new Map<DocumentChunk, ChunkDiff>();
+
+  for (const pair of pairs.sort((a, b) => b.similarity - a.similarity)) {
+    if (pairedBase.has(pair.base) || pairedTarget.has(pair.target)) continue;
+    pairedBase.add(pair.base);
+    pairedTarget.set(pair.target, {
+      status: "changed",
+      section: getSection(pair.target),
+      base: toChunkRef(pair.base),
+      target: toChunkRef(pair.target),
+      similarity: Math.round(pair.similarity * 1000) / 1000
+    });
+  }
+
+  // 3. Agregados en el orden de la versión nueva, seguidos de los eliminados
+  const targetChanges = remainingTarget.map(chunk => pairedTarget.get(chunk) ?? {
+    status: "added" as const,
+    section: getSection(chunk),
+    base: null,
+    target: toChunkRef(chunk),
+    similarity: null
+  });
+
+  const removed = remainingBase
+    .filter(chunk => !pairedBase.has(chunk))
+    .sort((a, b) => (a.chunk_index ?? 0) - (b.chunk_index ?? 0))
+    .map(chunk => ({
+      status: "removed" as const,
+      section: getSection(chunk),
+      base: toChunkRef(chunk),
+      target: null,
+      similarity: null
+    }));
+
+  return [...targetChanges, ...removed];
+}
+
+/**
+ * Resume los cambios por sección clínica
+ * Orden: secciones de la versión nueva y luego las que solo estaban en la anterior
+ */
+function diffSections(
+  baseChunks: DocumentChunk[],
+  targetChunks: DocumentChunk[],
+  changes: ChunkDiff[]
+): SectionDiff[] {
+  const baseSections = new Set(baseChunks.map(getSection));
+  const targetSections = new Set(targetChunks.map(getSection));
+  const sections = [...new Set([...targetSections, ...baseSections])];
+
+  return sections.map(section => {
+    const sectionChanges = changes.filter(change => change.section === section);
+    const addedChunks = sectionChanges.filter(c => c.status === "added").length;
+    const removedChunks = sectionChanges.filter(c => c.status === "removed").length;
+    const changedChunks = sectionChanges.filter(c => c.status === "changed").length;
+
+    let status: VersionChangeStatus = "unchanged";
+    if (!baseSections.has(section)) status = "added";
+    else if (!targetSections.has(section)) status = "removed";
+    else if (sectionChanges.length > 0) status = "changed";
+
+    return { section, status, addedChunks, removedChunks, changedChunks };
+  });
+}
+
+function getSection(chunk: DocumentChunk): string {
+  return chunk.metadata?.section ?? NO_SECTION;
+}
+
+function normalizeContent(content: string): string {
+  return content.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+function toWordSet(content: string): Set<string> {
+  return new Set(normalizeContent(content).split(/[^\p{L}\p{N}]+/u).filter(Boolean));
+}
+
+function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let intersection = 0;
+  for (const word of a) {
+    if (b.has(word)) intersection++;
+  }
+  return intersection / (a.size + b.size - intersection);
+}
+
+function toChunkRef(chunk: DocumentChunk): VersionChunkRef {
+  return {
+    chunkIndex: chunk.chunk_index ?? 0,
+    pageNumber: chunk.page_number,
+    content: chunk.content
+  };
+}
+
+function toVersionSummary(document: MedicalDocument): VersionSummary {
+  return {
+    documentId: document.id,
+    version: document.version,
+    filename: document.filename,
+    uploadedAt: document.uploaded_at
+  };
+}
@@ -0,0 +1,223 @@
+import { createHash } from "crypto";
+import { supabaseAdmin } from "./supabase";
+
+// ============================================
+// Configuración
+// ============================================
+
+const EMBEDDING_CACHE_CONFIG = {
+  queryCacheSize: 500,      // Embeddings de consultas que se mantienen en memoria (LRU)
+  lookupBatchSize: 100,     // Claves por consulta a la tabla (límite de largo de la URL)
+  table: "embedding_cache"
+} as const;
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface EmbeddingCacheStats {
+  query: {                  // LRU en memoria (embeddings de consultas)
+    hits: number;
+    misses: number;
+    size: number;
+  };
+  persistent: {             // Tabla embedding_cache (embeddings de documentos)
+    hits: number;
+    misses: number;
+  };
+  hitRate: number;          // 0 a 1, sobre todas las búsquedas
+}
+
+// ============================================
+// Estado del proceso
+// ============================================
+
+// Map conserva el orden de inserción: la primera clave es la menos usada
+const queryCache = new Map<string, number[]>();
+
+const counters = {
+  queryHits: 0,
+  queryMisses: 0,
+  persistentHits: 0,
+  persistentMisses: 0
+};
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Clave del cache: hash del texto y de todo lo que cambia el vector resultante
+ *
+ * @param text - Texto a vectorizar
+ * @param model - Modelo del proveedor
+ * @param taskType - Tipo de tarea (consulta o documento)
+ * @param dimensions - Dimensión del vector
+ * @returns Hash SHA-256 en hexadecimal
+ */
+export function getEmbeddingCacheKey(
+  text: string,
+  model: string,
+  taskType: string,
+  dimensions: number
+): string {
+  return createHash("sha256")
+    .update(`${model}\n${taskType}\n${dimensions}\n${text}`)
+    .digest("hex");
+}
+
+/**
+ * Busca el embedding de una consulta en el LRU en memoria
+ *
+ * @param key - Clave (ver getEmbeddingCacheKey)
+ * @returns Embedding o null si no está
+ */
+export function getCachedQueryEmbedding(key: string): number[] | null {
+  const embedding = queryCache.get(key);
+
+  if (!embedding) {
+    counters.queryMisses++;
+    return null;
+  }
+
+  // Pasa a ser la más reciente
+  queryCache.delete(key);
+  queryCache.set(key, embedding);
+  counters.queryHits++;
+  return embedding;
+}
+
+/**
+ * Guarda el embedding de una consulta, descartando el menos usado si está lleno
+ *
+ * @param key - Clave (ver getEmbeddingCacheKey)
+ * @param embedding - Vector de la consulta
+ */
+export function setCachedQueryEmbedding(key: string, embedding: number[]): void {
+  queryCache.delete(key);
+  queryCache.set(key, embedding);
+
+  if (queryCache.size > EMBEDDING_CACHE_CONFIG.queryCacheSize) {
+    queryCache.delete(queryCache.keys().next().value!);
+  }
+}
+
+/**
+ * Busca embeddings de documentos en la tabla
+ * Un error de lectura se trata como miss: el cache nunca interrumpe la ingesta
+ *
+ * @param keys - Claves a buscar (ver getEmbeddingCacheKey)
+ * @returns Embeddings encontrados por clave
+ */
+export async function getCachedEmbeddings(keys: string[]): Promise<Map<string, number[]>> {
+  const found = new Map<string, number[]>();
+  const uniqueKeys = [...new Set(keys)];
+
+  try {
+    for (let i = 0; i < uniqueKeys.length; i += EMBEDDING_CACHE_CONFIG.lookupBatchSize) {
+      const { data, error } = await supabaseAdmin
+        .from(EMBEDDING_CACHE_CONFIG.table)
+        .select("key, embedding")
+        .in("key", uniqueKeys.slice(i, i + EMBEDDING_CACHE_CONFIG.lookupBatchSize));
+
+      if (error) {
+        console.error("Error reading embedding cache:", error);
+        break;
+      }
+
+      for (const row of (data as { key: string; embedding: number[] }[]) || []) {
+        found.set(row.key, row.embedding);
+      }
+    }
+  } catch (error) {
+    console.error("Error in getCachedEmbeddings:", error);
+  }
+
+  counters.persistentHits += found.size;
+  counters.persistentMisses += uniqueKeys.length - found.size;
+  return found;
+}
+
+/**
+ * Guarda embeddings de documentos en la tabla
+ * Solo guarda la clave y el vector, nunca el texto
+ *
+ * @param entries - Embeddings por clave
+ * @param model - Modelo que los generó
+ */
+export async function saveCachedEmbeddings(
+  entries: Map<string, number[]>,
+  model: string
+): Promise<void> {
+  if (entries.size === 0) return;
+
+  try {
+    const { error } = await supabaseAdmin
+      .from(EMBEDDING_CACHE_CONFIG.table)
+      .upsert(
+        [...entries].map(([key, embedding]) => ({ key, model, embedding })),
+        { onConflict: "key", ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error("Error saving embedding cache:", error);
+    }
+  } catch (error) {
+    console.error("Error in saveCachedEmbeddings:", error);
+  }
+}
+
+/**
+ * Vacía el LRU de consultas y reinicia los contadores de esta instancia
+ * Con persistent también borra la tabla (los documentos se vuelven a vectorizar al reprocesarlos)
+ *
+ * @param options - persistent: borrar también la tabla
+ * @returns true si se vació correctamente
+ */
+export async function clearEmbeddingCache(options: { persistent?: boolean } = {}): Promise<boolean> {
+  queryCache.clear();
+  counters.queryHits = 0;
+  counters.queryMisses = 0;
+  counters.persistentHits = 0;
+  counters.persistentMisses = 0;
+
+  if (!options.persistent) return true;
+
+  try {
+    const { error } = await supabaseAdmin
+      .from(EMBEDDING_CACHE_CONFIG.table)
+      .delete()
+      .neq("key", "");
+
+    if (error) {
+      console.error("Error clearing embedding cache:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error in clearEmbeddingCache:", error);
+    return false;
+  }
+}
+
+/**
+ * Aciertos y fallos del cache desde que arrancó el proceso
+ */
+export function getEmbeddingCacheStats(): EmbeddingCacheStats {
+  const hits = counters.queryHits + counters.persistentHits;
+  const total = hits + counters.queryMisses + counters.persistentMisses;
+
+  return {
+    query: {
+      hits: counters.queryHits,
+      misses: counters.queryMisses,
+      size: queryCache.size
+    },
+    persistent: {
+      hits: counters.persistentHits,
+      misses: counters.persistentMisses
+    },
+    hitRate: total > 0 ? hits / total : 0
+  };
+}
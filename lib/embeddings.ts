@@ -1,30 +1,116 @@
 import { GoogleGenAI } from "@google/genai";
+import type { FeatureExtractionPipeline } from "@huggingface/transformers";
+import {
+  getEmbeddingCacheKey,
+  getCachedQueryEmbedding,
+  setCachedQueryEmbedding,
+  getCachedEmbeddings,
+  saveCachedEmbeddings
+} from "./embedding-cache";
 
 // ============================================
 // Configuración
 // ============================================
 
+// Proveedor y dimensión por defecto: EMBEDDING_PROVIDER y EMBEDDING_DIMENSIONS
+// Cada chunk guarda el modelo y la dimensión de su vector; para cambiarlos ver reembedding
 const EMBEDDING_CONFIG = {
-  model: "gemini-embedding-001",
-  outputDimensionality: 768,  // 768, 1536, o 3072 - 768 es balance óptimo
+  defaultDimensions: 768,     // 768, 1536, o 3072 - 768 es balance óptimo
+  geminiModel: "gemini-embedding-001",
+  localModel: "Xenova/multilingual-e5-base",   // Multilingüe, 768 dimensiones, corre en CPU con ONNX
+  hashingModel: "feature-hashing-v1"
 } as const;
 
-// Inicializar cliente de Gemini
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
+// Reintentos y paralelismo de los requests de embeddings
+const EMBEDDING_REQUEST_CONFIG = {
+  concurrency: 3,           // Batches en vuelo al mismo tiempo
+  maxRetries: 5,            // Reintentos por batch ante 429, 5xx o errores de red
+  initialBackoffMs: 500,    // Espera antes del primer reintento; se duplica en cada uno
+  maxBackoffMs: 30000
+} as const;
+
+// Prefijos que espera la familia de modelos e5
+const E5_PREFIXES: Record<EmbeddingTaskType, string> = {
+  RETRIEVAL_QUERY: "query: ",
+  RETRIEVAL_DOCUMENT: "passage: "
+};
 
 // ============================================
 // Interfaces
 // ============================================
 
+export type EmbeddingProviderName = "gemini" | "local" | "hashing";
+
+export type EmbeddingTaskType = "RETRIEVAL_QUERY" | "RETRIEVAL_DOCUMENT";
+
+export interface EmbeddingProvider {
+  description: string;
+  model: string;
+  supportedDimensions: number[] | null;   // null: cualquier dimensión
+  maxBatchSize: number;     // Textos por request
+  cacheable: boolean;       // Si conviene guardar sus vectores (ver embedding-cache)
+  embed: (texts: string[], taskType: EmbeddingTaskType, dimensions: number) => Promise<number[][]>;
+}
+
+// Proveedor y dimensión con los que se vectoriza
+export interface EmbeddingTarget {
+  provider: EmbeddingProviderName;
+  dimensions: number;
+}
+
+export interface ResolvedEmbeddingProvider extends EmbeddingTarget {
+  model: string;
+  description: string;
+}
+
 export interface EmbeddingResult {
   embedding: number[];
   text: string;
 }
 
+export interface EmbeddingCacheUsage {
+  hits: number;             // Textos resueltos desde el cache
+  misses: number;           // Textos enviados al proveedor
+}
+
 export interface BatchEmbeddingResult {
   embeddings: EmbeddingResult[];
+  cache: EmbeddingCacheUsage;
 }
 
+// ============================================
+// Registro de proveedores
+// ============================================
+
+// Los vectores de distintos proveedores no son comparables entre sí:
+// consultas y documentos deben vectorizarse con el mismo proveedor
+const EMBEDDING_PROVIDERS: Record<EmbeddingProviderName, EmbeddingProvider> = {
+  gemini: {
+    description: "Gemini (gemini-embedding-001) vía API",
+    model: EMBEDDING_CONFIG.geminiModel,
+    supportedDimensions: [768, 1536, 3072],
+    maxBatchSize: 100,      // Límite de embedContent por request
+    cacheable: true,
+    embed: embedWithGemini
+  },
+  local: {
+    description: "Modelo ONNX local con transformers.js (CPU, sin enviar texto fuera del servidor)",
+    model: EMBEDDING_CONFIG.localModel,
+    supportedDimensions: [768],
+    maxBatchSize: 16,       // Acota la memoria de cada inferencia en CPU
+    cacheable: true,
+    embed: embedWithLocalModel
+  },
+  hashing: {
+    description: "Hashing de palabras determinístico, sin red ni modelo (para tests)",
+    model: EMBEDDING_CONFIG.hashingModel,
+    supportedDimensions: null,
+    maxBatchSize: 1000,
+    cacheable: false,       // Más barato recalcular que consultar la tabla
+    embed: async (texts, _taskType, dimensions) => texts.map(text => embedWithHashing(text, dimensions))
+  }
+};
+
 // ============================================
 // Funciones de Embedding
 // ============================================
@@ -32,91 +118,110 @@ export interface BatchEmbeddingResult {
 /**
  * Vectoriza un texto para búsqueda (query del usuario)
  * Usa taskType RETRIEVAL_QUERY optimizado para consultas
- * 
+ *
  * @param query - Texto de la consulta del usuario
+ * @param target - Proveedor y dimensión (default: EMBEDDING_PROVIDER / EMBEDDING_DIMENSIONS)
  * @returns Vector de embeddings
  */
-export async function embedQuery(query: string): Promise<number[]> {
-  const response = await ai.models.embedContent({
-    model: EMBEDDING_CONFIG.model,
-    contents: query,
-    config: {
-      taskType: "RETRIEVAL_QUERY",
-      outputDimensionality: EMBEDDING_CONFIG.outputDimensionality
-    }
-  });
-  
-  return response.embeddings?.[0]?.values ?? [];
+export async function embedQuery(
+  query: string,
+  target: Partial<EmbeddingTarget> = {}
+): Promise<number[]> {
+  const { embeddings: [embedding] } = await embedTexts([query], "RETRIEVAL_QUERY", target);
+  return embedding;
 }
 
 /**
  * Vectoriza múltiples textos para indexación (documentos/chunks)
  * Usa taskType RETRIEVAL_DOCUMENT optimizado para documentos
- * 
+ *
  * @param texts - Array de textos a vectorizar
+ * @param target - Proveedor y dimensión
  * @returns Array de vectores de embeddings
  */
-export async function embedDocuments(texts: string[]): Promise<number[][]> {
-  const response = await ai.models.embedContent({
-    model: EMBEDDING_CONFIG.model,
-    contents: texts,
-    config: {
-      taskType: "RETRIEVAL_DOCUMENT",
-      outputDimensionality: EMBEDDING_CONFIG.outputDimensionality
-    }
-  });
-  
-  return response.embeddings?.map(e => e.values ?? []) ?? [];
+export async function embedDocuments(
+  texts: string[],
+  target: Partial<EmbeddingTarget> = {}
+): Promise<number[][]> {
+  const { embeddings } = await embedTexts(texts, "RETRIEVAL_DOCUMENT", target);
+  return embeddings;
 }
 
 /**
  * Vectoriza un solo documento/chunk para indexación
- * 
+ *
  * @param text - Texto del documento a vectorizar
+ * @param target - Proveedor y dimensión
  * @returns Vector de embeddings
  */
-export async function embedDocument(text: string): Promise<number[]> {
-  const response = await ai.models.embedContent({
-    model: EMBEDDING_CONFIG.model,
-    contents: text,
-    config: {
-      taskType: "RETRIEVAL_DOCUMENT",
-      outputDimensionality: EMBEDDING_CONFIG.outputDimensionality
-    }
-  });
-  
-  return response.embeddings?.[0]?.values ?? [];
+export async function embedDocument(
+  text: string,
+  target: Partial<EmbeddingTarget> = {}
+): Promise<number[]> {
+  const { embeddings: [embedding] } = await embedTexts([text], "RETRIEVAL_DOCUMENT", target);
+  return embedding;
 }
 
 /**
  * Vectoriza textos en batch para mejor rendimiento
  * Recomendado para procesar múltiples chunks de un documento
- * 
+ * Lanza un error si algún texto no se pudo vectorizar después de los reintentos
+ *
  * @param texts - Array de textos a vectorizar
+ * @param target - Proveedor y dimensión
  * @returns Resultado con embeddings y metadata
  */
-export async function embedBatch(texts: string[]): Promise<BatchEmbeddingResult> {
-  const response = await ai.models.embedContent({
-    model: EMBEDDING_CONFIG.model,
-    contents: texts,
-    config: {
-      taskType: "RETRIEVAL_DOCUMENT",
-      outputDimensionality: EMBEDDING_CONFIG.outputDimensionality
-    }
-  });
-  
+export async function embedBatch(
+  texts: string[],
+  target: Partial<EmbeddingTarget> = {}
+): Promise<BatchEmbeddingResult> {
+  const { embeddings, cache } = await embedTexts(texts, "RETRIEVAL_DOCUMENT", target);
+
   return {
-    embeddings: (response.embeddings ?? []).map((e, index) => ({
-      embedding: e.values ?? [],
+    embeddings: embeddings.map((embedding, index) => ({
+      embedding,
       text: texts[index]
-    }))
+    })),
+    cache
   };
 }
 
+/**
+ * Resuelve proveedor, modelo y dimensión con los que se vectoriza
+ * Lanza un error si el proveedor no admite la dimensión pedida
+ *
+ * @param target - Proveedor y dimensión (default: EMBEDDING_PROVIDER / EMBEDDING_DIMENSIONS)
+ * @returns Proveedor con su modelo y dimensión
+ */
+export function getEmbeddingProvider(
+  target: Partial<EmbeddingTarget> = {}
+): ResolvedEmbeddingProvider {
+  const provider = target.provider ?? getDefaultProvider();
+  const dimensions = target.dimensions ?? getDefaultDimensions();
+  const { model, description, supportedDimensions } = EMBEDDING_PROVIDERS[provider];
+
+  if (!Number.isInteger(dimensions) || dimensions <= 0 ||
+      (supportedDimensions && !supportedDimensions.includes(dimensions))) {
+    throw new Error(
+      `${model} no admite vectores de dimensión ${dimensions}` +
+      (supportedDimensions ? ` (opciones: ${supportedDimensions.join(", ")})` : "")
+    );
+  }
+
+  return { provider, dimensions, model, description };
+}
+
+/**
+ * Verifica si un nombre corresponde a un proveedor registrado
+ */
+export function isEmbeddingProvider(name: string): name is EmbeddingProviderName {
+  return Object.prototype.hasOwnProperty.call(EMBEDDING_PROVIDERS, name);
+}
+
 /**
  * Calcula la similitud coseno entre dos vectores
  * Útil para comparaciones locales
- * 
+ *
  * @param a - Primer vector
  * @param b - Segundo vector
  * @returns Similitud coseno (0 a 1)
@@ -125,23 +230,304 @@ export function cosineSimilarity(a: number[], b: number[]): number {
   if (a.length !== b.length) {
     throw new Error("Los vectores deben tener la misma dimensión");
   }
-  
+
   let dotProduct = 0;
   let normA = 0;
   let normB = 0;
-  
+
   for (let i = 0; i < a.length; i++) {
     dotProduct += a[i] * b[i];
     normA += a[i] * a[i];
     normB += b[i] * b[i];
   }
-  
+
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
+// ============================================
+// Cache
+// ============================================
+
+/**
+ * Vectoriza textos pasando por el cache
+ * Consultas: LRU en memoria. Documentos: tabla embedding_cache
+ * Un texto repetido se vectoriza una sola vez
+ *
+ * @returns Un vector por texto, en el mismo orden, y el uso del cache
+ */
+async function embedTexts(
+  texts: string[],
+  taskType: EmbeddingTaskType,
+  target: Partial<EmbeddingTarget>
+): Promise<{ embeddings: number[][]; cache: EmbeddingCacheUsage }> {
+  const { provider: providerName, dimensions } = getEmbeddingProvider(target);
+  const provider = EMBEDDING_PROVIDERS[providerName];
+
+  if (!provider.cacheable) {
+    return {
+      embeddings: await embedUncached(provider, texts, taskType, dimensions),
+      cache: { hits: 0, misses: texts.length }
+    };
+  }
+
+  // 1. Buscar en el cache
+  const keys = texts.map(text => getEmbeddingCacheKey(text, provider.model, taskType, dimensions));
+  const isQuery = taskType === "RETRIEVAL_QUERY";
+  const cached = isQuery
+    ? new Map(keys.flatMap(key => {
+        const embedding = getCachedQueryEmbedding(key);
+        return embedding ? [[key, embedding] as const] : [];
+      }))
+    : await getCachedEmbeddings(keys);
+
+  // 2. Vectorizar lo que falta, sin repetir textos
+  const missing = new Map<string, string>();
+  keys.forEach((key, index) => {
+    if (!cached.has(key)) missing.set(key, texts[index]);
+  });
+
+  const fresh = await embedUncached(provider, [...missing.values()], taskType, dimensions);
+  const freshByKey = new Map([...missing.keys()].map((key, index) => [key, fresh[index]]));
+
+  // 3. Guardar lo nuevo
+  if (isQuery) {
+    freshByKey.forEach((embedding, key) => setCachedQueryEmbedding(key, embedding));
+  } else {
+    await saveCachedEmbeddings(freshByKey, provider.model);
+  }
+
+  return {
+    embeddings: keys.map(key => cached.get(key) ?? freshByKey.get(key)!),
+    cache: {
+      hits: keys.filter(key => cached.has(key)).length,
+      misses: missing.size
+    }
+  };
+}
+
+// ============================================
+// Batches y reintentos
+// ============================================
+
+/**
+ * Vectoriza textos en batches del tamaño del proveedor, con paralelismo acotado
+ * Cada batch se reintenta con backoff exponencial; un fallo permanente rechaza todo
+ *
+ * @returns Un vector por texto, en el mismo orden
+ */
+async function embedUncached(
+  provider: EmbeddingProvider,
+  texts: string[],
+  taskType: EmbeddingTaskType,
+  dimensions: number
+): Promise<number[][]> {
+  const batches: string[][] = [];
+
+  for (let i = 0; i < texts.length; i += provider.maxBatchSize) {
+    batches.push(texts.slice(i, i + provider.maxBatchSize));
+  }
+
+  const results = await mapWithConcurrency(
+    batches,
+    EMBEDDING_REQUEST_CONFIG.concurrency,
+    batch => embedWithRetry(provider, batch, taskType, dimensions)
+  );
+
+  return results.flat();
+}
+
+/**
+ * Vectoriza un batch reintentando los errores transitorios
+ * Valida que haya un vector de la dimensión esperada por cada texto
+ */
+async function embedWithRetry(
+  provider: EmbeddingProvider,
+  texts: string[],
+  taskType: EmbeddingTaskType,
+  dimensions: number
+): Promise<number[][]> {
+  const { maxRetries, initialBackoffMs, maxBackoffMs } = EMBEDDING_REQUEST_CONFIG;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const embeddings = await provider.embed(texts, taskType, dimensions);
+      validateEmbeddings(embeddings, texts.length, provider.model, dimensions);
+      return embeddings;
+    } catch (error) {
+      if (attempt >= maxRetries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      // Backoff exponencial con jitter, para no reintentar todos los batches a la vez
+      const backoff = Math.min(maxBackoffMs, initialBackoffMs * 2 ** attempt);
+      const delay = Math.round(backoff * (0.5 + Math.random() / 2));
+      console.warn(`Embedding request failed (attempt ${attempt + 1}/${maxRetries + 1}), retrying in ${delay}ms:`, error);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+/**
+ * Un vector vacío o de otra dimensión no se puede guardar ni comparar
+ */
+function validateEmbeddings(embeddings: number[][], expected: number, model: string, dimensions: number): void {
+  if (embeddings.length !== expected) {
+    throw new Error(`${model} devolvió ${embeddings.length} embeddings para ${expected} textos`);
+  }
+
+  const invalid = embeddings.findIndex(embedding => embedding.length !== dimensions);
+  if (invalid >= 0) {
+    throw new Error(
+      `${model} devolvió un embedding de dimensión ${embeddings[invalid].length} ` +
+      `(esperada ${dimensions}) para el texto ${invalid}`
+    );
+  }
+}
+
+/**
+ * Errores transitorios: rate limit (429), errores del servidor (5xx) y fallas de red
+ */
+function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === "number") {
+    return status === 429 || status >= 500;
+  }
+  return error instanceof TypeError && /fetch failed/i.test(error.message);
+}
+
+/**
+ * Aplica una función asíncrona a cada elemento con a lo sumo `limit` en paralelo
+ * Conserva el orden de los resultados; rechaza con el primer error
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+// ============================================
+// Proveedores
+// ============================================
+
+// Se crea al primer uso: sin GEMINI_API_KEY se pueden usar los proveedores locales
+let geminiClient: GoogleGenAI | null = null;
+
+/**
+ * Gemini: un request por batch
+ * Un embedding sin valores queda vacío y lo rechaza validateEmbeddings
+ */
+async function embedWithGemini(
+  texts: string[],
+  taskType: EmbeddingTaskType,
+  dimensions: number
+): Promise<number[][]> {
+  geminiClient ??= new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
+
+  const response = await geminiClient.models.embedContent({
+    model: EMBEDDING_CONFIG.geminiModel,
+    contents: texts,
+    config: {
+      taskType,
+      outputDimensionality: dimensions
+    }
+  });
+
+  return response.embeddings?.map(e => e.values ?? []) ?? [];
+}
+
+// El modelo se descarga y carga una sola vez por proceso
+let localPipeline: Promise<FeatureExtractionPipeline> | null = null;
+
+/**
+ * Modelo local (transformers.js + ONNX Runtime en CPU)
+ * Mean pooling y normalización L2, como recomienda e5
+ */
+async function embedWithLocalModel(texts: string[], taskType: EmbeddingTaskType): Promise<number[][]> {
+  localPipeline ??= import("@huggingface/transformers").then(({ pipeline }) =>
+    pipeline("feature-extraction", EMBEDDING_CONFIG.localModel, { dtype: "q8" })
+  );
+  const extractor = await localPipeline;
+
+  const output = await extractor(
+    texts.map(text => E5_PREFIXES[taskType] + text),
+    { pooling: "mean", normalize: true }
+  );
+
+  return output.tolist() as number[][];
+}
+
+/**
+ * Hashing de palabras y pares de palabras (feature hashing con signo)
+ * Mismo texto, mismo vector; textos con palabras en común quedan cerca
+ */
+function embedWithHashing(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9ñ]+/)
+    .filter(Boolean);
+
+  const features = [...words, ...words.slice(1).map((word, i) => `${words[i]} ${word}`)];
+
+  for (const feature of features) {
+    const hash = fnv1a(feature);
+    const sign = hash & 1 ? 1 : -1;
+    vector[(hash >>> 1) % vector.length] += sign;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm > 0 ? vector.map(value => value / norm) : vector;
+}
+
+/**
+ * Hash FNV-1a de 32 bits
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// ============================================
+// Funciones auxiliares
+// ============================================
+
+/**
+ * Proveedor configurado para el entorno
+ */
+function getDefaultProvider(): EmbeddingProviderName {
+  const configured = process.env.EMBEDDING_PROVIDER;
+  return configured && isEmbeddingProvider(configured) ? configured : "gemini";
+}
+
+/**
+ * Dimensión configurada para el entorno
+ */
+function getDefaultDimensions(): number {
+  const configured = Number(process.env.EMBEDDING_DIMENSIONS);
+  return Number.isInteger(configured) && configured > 0 ? configured : EMBEDDING_CONFIG.defaultDimensions;
+}
+
 // ============================================
 // Configuración exportada
 // ============================================
 
-export const EMBEDDING_DIMENSIONS = EMBEDDING_CONFIG.outputDimensionality;
-export const EMBEDDING_MODEL = EMBEDDING_CONFIG.model;
+export const EMBEDDING_PROVIDER_NAMES = Object.keys(EMBEDDING_PROVIDERS) as EmbeddingProviderName[];
@@ -0,0 +1,429 @@
+import { supabaseAdmin, IngestionJob } from "./supabase";
+import { processAndEmbedDocument, ProcessingStage, PDFEmbeddingResult } from "./pdf-processing";
+import {
+  saveDocument,
+  saveChunksWithEmbeddings,
+  saveLabResults,
+  saveClinicalEntities,
+  deleteDocument,
+  deleteFileFromStorage
+} from "./document-storage";
+import { savePHIMapping } from "./phi-redaction";
+import { extractClinicalEntities } from "./clinical-entities";
+import { ChunkingConfig } from "./chunking";
+
+// ============================================
+// Etapas
+// ============================================
+
+export type IngestionStage = "queued" | ProcessingStage | "storing" | "done" | "failed";
+
+// Porcentaje de avance al comenzar cada etapa
+const STAGE_PROGRESS: Record<IngestionStage, number> = {
+  queued: 0,
+  extracting: 5,
+  chunking: 35,
+  embedding: 50,
+  storing: 80,
+  done: 100,
+  failed: 100
+};
+
+// Pasos de la etapa "storing", para informar avance dentro de ella
+const STORING_STEPS = ["document", "chunks", "labResults", "entities", "phiMapping"] as const;
+
+// La ingesta corre dentro de la subida (maxDuration = 300 s): un trabajo sin terminar
+// que no se actualizó en ese tiempo ya no va a avanzar
+const STALE_JOB_SECONDS = 300;
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface CreateIngestionJobParams {
+  filename: string;
+  mimeType: string;
+  userId: string;
+  storagePath: string;
+  chunking: ChunkingConfig;
+  contentHash: string;      // SHA-256 del archivo (ver computeContentHash)
+  previousVersionId?: string;   // Si es una nueva versión de un documento existente
+  contextualEmbeddings: boolean;  // Vectorizar los chunks con encabezado de contexto
+}
+
+export interface CreateIngestionJobResult {
+  success: boolean;
+  jobId?: string;
+  error?: string;
+}
+
+export interface IngestionJobResult {
+  documentId: string;
+  version: number;
+  filename: string;
+  totalPages: number;
+  totalChunks: number;
+  savedChunks: number;
+  savedLabResults: number;
+  savedEntities: number;
+  metadata: PDFEmbeddingResult["metadata"];
+  stats: {
+    averageChunkSize: number;
+    totalCharacters: number;
+    totalTokens: number;
+    embeddingDimensions: number;
+    embeddingCacheHits: number;     // Chunks que no hubo que vectorizar de nuevo
+    embeddingCacheMisses: number;
+  };
+}
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Registra un trabajo de ingesta en estado "queued"
+ *
+ * @param params - Archivo ya subido al storage y opciones de procesamiento
+ * @returns Resultado con el ID del trabajo
+ */
+export async function createIngestionJob(
+  params: CreateIngestionJobParams
+): Promise<CreateIngestionJobResult> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("ingestion_jobs")
+      .insert({
+        user_id: params.userId,
+        filename: params.filename,
+        mime_type: params.mimeType,
+        storage_path: params.storagePath,
+        stage: "queued",
+        progress: STAGE_PROGRESS.queued,
+        options: {
+          chunking: params.chunking,
+          contentHash: params.contentHash,
+          previousVersionId: params.previousVersionId,
+          contextualEmbeddings: params.contextualEmbeddings
+        }
+      })
+      .select("id")
+      .single();
+
+    if (error) {
+      console.error("Error creating ingestion job:", error);
+      return {
+        success: false,
+        error: `Error al crear el trabajo de ingesta: ${error.message}`
+      };
+    }
+
+    return {
+      success: true,
+      jobId: data.id
+    };
+  } catch (error) {
+    console.error("Error in createIngestionJob:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Error desconocido"
+    };
+  }
+}
+
+/**
+ * Ejecuta un trabajo de ingesta: extracción, chunking, embeddings y guardado
+ * Actualiza la etapa y el avance en ingestion_jobs a medida que progresa
+ * Todo o nada: si algo falla se borran el documento y el archivo subido,
+ * y el trabajo queda en estado "failed" (no lanza errores)
+ *
+ * @param jobId - ID del trabajo
+ * @param fileBuffer - Contenido del archivo subido
+ */
+export async function runIngestionJob(jobId: string, fileBuffer: Buffer): Promise<void> {
+  const job = await getIngestionJob(jobId);
+
+  if (!job) {
+    console.error(`Ingestion job ${jobId} not found`);
+    return;
+  }
+
+  // Lo creado hasta el momento, para deshacerlo si algo falla
+  const created: IngestionCreatedRecords = {};
+
+  try {
+    // 1. Procesar el documento y generar embeddings (informa extracting, chunking, embedding)
+    const result = await processAndEmbedDocument(
+      fileBuffer,
+      job.options?.chunking,
+      job.mime_type,
+      job.filename,
+      stage => updateIngestionJob(jobId, { stage, progress: STAGE_PROGRESS[stage] }),
+      job.options?.contextualEmbeddings
+    );
+
+    if (!result.success) {
+      throw new Error(result.error || "Error al procesar el documento");
+    }
+
+    // 2. Guardar documento, chunks y datos estructurados
+    const jobResult = await storeIngestionResult(job, result, created);
+
+    // 3. Marcar como terminado
+    await updateIngestionJob(jobId, {
+      stage: "done",
+      progress: STAGE_PROGRESS.done,
+      document_id: jobResult.documentId,
+      result: jobResult
+    });
+
+  } catch (error) {
+    console.error("Error running ingestion job:", error);
+    await failIngestionJob(
+      job,
+      error instanceof Error ? error.message : "Error desconocido al procesar el documento",
+      created
+    );
+  }
+}
+
+/**
+ * Obtiene un trabajo de ingesta por su ID
+ *
+ * @param jobId - ID del trabajo
+ * @returns Trabajo o null si no existe
+ */
+export async function getIngestionJob(jobId: string): Promise<IngestionJob | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("ingestion_jobs")
+      .select("*")
+      .eq("id", jobId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error getting ingestion job:", error);
+      return null;
+    }
+
+    return data as IngestionJob | null;
+  } catch (error) {
+    console.error("Error in getIngestionJob:", error);
+    return null;
+  }
+}
+
+/**
+ * Indica si un trabajo quedó sin terminar más allá del tiempo máximo de la ingesta
+ *
+ * @param job - Trabajo de ingesta
+ */
+export function isIngestionJobStale(job: Pick<IngestionJob, "stage" | "updated_at">): boolean {
+  return job.stage !== "done" &&
+    job.stage !== "failed" &&
+    Date.parse(job.updated_at) < Date.now() - STALE_JOB_SECONDS * 1000;
+}
+
+/**
+ * Marca como fallidos los trabajos sin terminar que superaron el tiempo máximo
+ * (ej: la función se cortó por timeout sin llegar a failIngestionJob)
+ * Lo que hayan dejado en la base o el storage lo reporta el barrido de huérfanos
+ *
+ * @param jobId - Solo este trabajo (default: todos)
+ * @returns Trabajos marcados como fallidos
+ */
+export async function failStaleIngestionJobs(jobId?: string): Promise<IngestionJob[]> {
+  const olderThan = new Date(Date.now() - STALE_JOB_SECONDS * 1000).toISOString();
+
+  try {
+    let query = supabaseAdmin
+      .from("ingestion_jobs")
+      .update({
+        stage: "failed",
+        progress: STAGE_PROGRESS.failed,
+        error: "El procesamiento superó el tiempo máximo y se interrumpió",
+        updated_at: new Date().toISOString()
+      })
+      .not("stage", "in", "(done,failed)")
+      .lt("updated_at", olderThan);
+
+    if (jobId) {
+      query = query.eq("id", jobId);
+    }
+
+    const { data, error } = await query.select("*");
+
+    if (error) {
+      console.error("Error failing stale ingestion jobs:", error);
+      return [];
+    }
+
+    return (data as IngestionJob[]) || [];
+  } catch (error) {
+    console.error("Error in failStaleIngestionJobs:", error);
+    return [];
+  }
+}
+
+// ============================================
+// Funciones auxiliares
+// ============================================
+
+// Registros creados por un trabajo en curso
+interface IngestionCreatedRecords {
+  documentId?: string;
+}
+
+/**
+ * Etapa "storing": guarda el documento y todo lo extraído
+ * Lanza un error en el primer paso que falla
+ * @param created - Se completa con el documento creado, para poder deshacerlo
+ * @returns Resultado del trabajo
+ */
+async function storeIngestionResult(
+  job: IngestionJob,
+  result: PDFEmbeddingResult,
+  created: IngestionCreatedRecords
+): Promise<IngestionJobResult> {
+  const reportStep = (step: typeof STORING_STEPS[number]) => {
+    const range = STAGE_PROGRESS.done - STAGE_PROGRESS.storing;
+    const progress = STAGE_PROGRESS.storing + Math.floor(range * STORING_STEPS.indexOf(step) / STORING_STEPS.length);
+    return updateIngestionJob(job.id, { stage: "storing", progress });
+  };
+
+  // 1. Documento
+  await reportStep("document");
+  const docResult = await saveDocument({
+    userId: job.user_id ?? undefined,
+    filename: job.filename,
+    previousVersionId: job.options?.previousVersionId,
+    metadata: {
+      title: result.metadata.title,
+      author: result.metadata.author,
+      creationDate: result.metadata.creationDate,
+      totalPages: result.totalPages,
+      totalChunks: result.totalChunks,
+      storagePath: job.storage_path ?? undefined,
+      chunking: job.options?.chunking,
+      boilerplate: result.metadata.boilerplate,
+      classification: result.metadata.classification,
+      contentHash: job.options?.contentHash,
+      contextualEmbeddings: job.options?.contextualEmbeddings
+    }
+  });
+
+  if (!docResult.success || !docResult.documentId) {
+    throw new Error(docResult.error || "Error al guardar documento");
+  }
+  const documentId = docResult.documentId;
+  created.documentId = documentId;
+
+  // 2. Chunks con embeddings
+  await reportStep("chunks");
+  const chunksResult = await saveChunksWithEmbeddings(documentId, result.chunks, {
+    model: result.embeddingModel,
+    dimensions: result.embeddingDimensions
+  });
+
+  if (!chunksResult.success) {
+    throw new Error(chunksResult.error || "Error al guardar chunks");
+  }
+
+  // 3. Filas de las tablas de laboratorio
+  await reportStep("labResults");
+  const labResultsSaved = await saveLabResults(documentId, result.labResults);
+
+  if (!labResultsSaved.success) {
+    throw new Error(labResultsSaved.error || "Error al guardar resultados de laboratorio");
+  }
+
+  // 4. Entidades clínicas (medicación, diagnósticos, alergias...)
+  await reportStep("entities");
+  const entities = await extractClinicalEntities(result.chunks, result.phiMapping);
+  const entitiesResult = await saveClinicalEntities(documentId, entities);
+
+  if (!entitiesResult.success) {
+    throw new Error(entitiesResult.error || "Error al guardar entidades clínicas");
+  }
+
+  // 5. Mapping de desidentificación (solo servidor)
+  await reportStep("phiMapping");
+  const mappingSaved = await savePHIMapping(documentId, result.phiMapping ?? {});
+
+  if (!mappingSaved) {
+    throw new Error("Error al guardar el mapping de datos identificatorios");
+  }
+
+  const totalCharacters = result.chunks.reduce((sum, c) => sum + c.content.length, 0);
+
+  return {
+    documentId,
+    version: docResult.version ?? 1,
+    filename: job.filename,
+    totalPages: result.totalPages,
+    totalChunks: result.totalChunks,
+    savedChunks: chunksResult.savedCount,
+    savedLabResults: labResultsSaved.savedCount,
+    savedEntities: entitiesResult.savedCount,
+    metadata: result.metadata,
+    stats: {
+      averageChunkSize: result.chunks.length > 0
+        ? Math.round(totalCharacters / result.chunks.length)
+        : 0,
+      totalCharacters,
+      totalTokens: result.chunks.reduce((sum, c) => sum + c.tokenCount, 0),
+      embeddingDimensions: result.embeddingDimensions,
+      embeddingCacheHits: result.embeddingCache?.hits ?? 0,
+      embeddingCacheMisses: result.embeddingCache?.misses ?? 0
+    }
+  };
+}
+
+/**
+ * Actualiza la etapa y los datos de un trabajo
+ * Un error al informar el avance no interrumpe la ingesta
+ */
+async function updateIngestionJob(
+  jobId: string,
+  changes: Partial<Pick<IngestionJob, "stage" | "progress" | "document_id" | "result" | "error">>
+): Promise<void> {
+  try {
+    const { error } = await supabaseAdmin
+      .from("ingestion_jobs")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", jobId);
+
+    if (error) {
+      console.error("Error updating ingestion job:", error);
+    }
+  } catch (error) {
+    console.error("Error in updateIngestionJob:", error);
+  }
+}
+
+/**
+ * Marca un trabajo como fallido y deshace lo que haya creado
+ * Borra el documento (chunks, laboratorio, entidades y mapping caen por CASCADE)
+ * y el archivo subido; si la limpieza falla, el barrido de huérfanos lo reporta
+ */
+async function failIngestionJob(
+  job: IngestionJob,
+  message: string,
+  created: IngestionCreatedRecords
+): Promise<void> {
+  const documentDeleted = created.documentId ? await deleteDocument(created.documentId) : true;
+  const fileDeleted = job.storage_path ? await deleteFileFromStorage(job.storage_path) : true;
+
+  if (!documentDeleted || !fileDeleted) {
+    console.error(`Incomplete cleanup for ingestion job ${job.id}`, {
+      documentId: documentDeleted ? null : created.documentId,
+      storagePath: fileDeleted ? null : job.storage_path
+    });
+  }
+
+  await updateIngestionJob(job.id, {
+    stage: "failed",
+    progress: STAGE_PROGRESS.failed,
+    error: documentDeleted && fileDeleted ? message : `${message} (limpieza incompleta)`
+  });
+}
@@ -0,0 +1,147 @@
+import { supabaseAdmin, IngestionJob } from "./supabase";
+import { failStaleIngestionJobs } from "./ingestion-jobs";
+
+// ============================================
+// Configuración
+// ============================================
+
+const ORPHAN_SWEEP_CONFIG = {
+  gracePeriodMinutes: 30,   // Mayor que maxDuration de la subida: no reporta ingestas en curso
+  bucket: "files",
+  pathPrefix: "documents/"
+} as const;
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface OrphanDocument {
+  id: string;
+  filename: string;
+  uploadedAt: string;
+  storagePath: string | null;
+}
+
+export interface OrphanFile {
+  storagePath: string;
+  createdAt: string;
+}
+
+export interface StaleIngestionJob {
+  id: string;
+  filename: string;
+  stage: IngestionJob["stage"];
+  documentId: string | null;
+  storagePath: string | null;
+  updatedAt: string;
+}
+
+export interface OrphanReport {
+  checkedAt: string;
+  olderThan: string;                          // Solo se consideran registros anteriores a esta fecha
+  documentsWithoutChunks: OrphanDocument[];
+  orphanFiles: OrphanFile[];
+  staleJobs: StaleIngestionJob[];             // Trabajos cortados a mitad de camino (ej: timeout), ya marcados como fallidos
+  totalOrphans: number;
+}
+
+export interface OrphanSweepResult {
+  success: boolean;
+  report?: OrphanReport;
+  error?: string;
+}
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Busca restos de ingestas fallidas y los reporta (no borra nada)
+ * - Documentos sin chunks
+ * - Archivos del storage sin documento ni trabajo en curso
+ * - Trabajos que quedaron en una etapa intermedia (se marcan como fallidos)
+ *
+ * @returns Reporte de huérfanos
+ */
+export async function sweepOrphans(): Promise<OrphanSweepResult> {
+  const checkedAt = new Date();
+  const olderThan = new Date(checkedAt.getTime() - ORPHAN_SWEEP_CONFIG.gracePeriodMinutes * 60 * 1000).toISOString();
+
+  try {
+    // 1. Documentos sin chunks
+    const documents = await supabaseAdmin.rpc("find_orphan_documents", { older_than: olderThan });
+
+    if (documents.error) {
+      console.error("Error finding orphan documents:", documents.error);
+      return { success: false, error: `Error buscando documentos huérfanos: ${documents.error.message}` };
+    }
+
+    // 2. Archivos sin documento
+    const files = await supabaseAdmin.rpc("find_orphan_files", {
+      older_than: olderThan,
+      bucket: ORPHAN_SWEEP_CONFIG.bucket,
+      path_prefix: ORPHAN_SWEEP_CONFIG.pathPrefix
+    });
+
+    if (files.error) {
+      console.error("Error finding orphan files:", files.error);
+      return { success: false, error: `Error buscando archivos huérfanos: ${files.error.message}` };
+    }
+
+    // 3. Trabajos sin terminar que ya no avanzan
+    const jobs = await supabaseAdmin
+      .from("ingestion_jobs")
+      .select("*")
+      .not("stage", "in", "(done,failed)")
+      .lt("updated_at", olderThan)
+      .order("updated_at", { ascending: true });
+
+    if (jobs.error) {
+      console.error("Error finding stale ingestion jobs:", jobs.error);
+      return { success: false, error: `Error buscando trabajos interrumpidos: ${jobs.error.message}` };
+    }
+
+    // Los que superaron el tiempo máximo de la ingesta dejan de figurar en curso
+    await failStaleIngestionJobs();
+
+    const report: OrphanReport = {
+      checkedAt: checkedAt.toISOString(),
+      olderThan,
+      documentsWithoutChunks: (documents.data as { id: string; filename: string; uploaded_at: string; storage_path: string | null }[] || [])
+        .map(document => ({
+          id: document.id,
+          filename: document.filename,
+          uploadedAt: document.uploaded_at,
+          storagePath: document.storage_path
+        })),
+      orphanFiles: (files.data as { storage_path: string; created_at: string }[] || [])
+        .map(file => ({ storagePath: file.storage_path, createdAt: file.created_at })),
+      staleJobs: (jobs.data as IngestionJob[] || []).map(job => ({
+        id: job.id,
+        filename: job.filename,
+        stage: job.stage,
+        documentId: job.document_id,
+        storagePath: job.storage_path,
+        updatedAt: job.updated_at
+      })),
+      totalOrphans: 0
+    };
+    report.totalOrphans = report.documentsWithoutChunks.length + report.orphanFiles.length + report.staleJobs.length;
+
+    if (report.totalOrphans > 0) {
+      console.warn("Orphans left by failed ingestions:", {
+        documentsWithoutChunks: report.documentsWithoutChunks.length,
+        orphanFiles: report.orphanFiles.length,
+        staleJobs: report.staleJobs.length
+      });
+    }
+
+    return { success: true, report };
+  } catch (error) {
+    console.error("Error in sweepOrphans:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Error desconocido"
+    };
+  }
+}
@@ -0,0 +1,253 @@
+import type { PageText } from "./document-loaders";
+
+// ============================================
+// Configuración
+// ============================================
+
+const LAB_TABLE_CONFIG = {
+  minTableRows: 3,        // Filas mínimas para considerar que hay una tabla de laboratorio
+  maxGapLines: 2          // Líneas sin resultado (títulos de panel, notas) permitidas dentro de una tabla
+} as const;
+
+// Número con coma o punto decimal: "13,5", "0.85", "250.000"
+const NUMBER = String.raw`\d+(?:[.,]\d+)*`;
+
+// Valores cualitativos frecuentes en serología y orina
+const QUALITATIVE_VALUE = String.raw`no reactivo|reactivo|positivo|negativo|ausente|presente|indetectable|no detectable|normal|escas[oa]s?|abundantes?`;
+
+// Marcas de valor fuera de rango: "*", "↑", "H", "Alto"
+const FLAG = String.raw`\*|↑|↓|\b[HLA]\b|\b(?:alto|bajo|elevado|disminuido|patol[oó]gico)\b`;
+
+// "mg/dL", "%", "x10^3/µL", "/mm3", "mEq/L", "U/L", "fL", "seg"
+const UNIT = String.raw`%|(?:x\s?)?10\^?\d+\s?\/\s?[a-zµμ]+\d*|\/[a-zµμ]+\d*|[a-zµμ]+\/[a-zµμ.\d]+|(?:mg|g|ng|pg|µg|ug|fl|u|ui|mui|meq|mmol|umol|µmol|seg|s|mm|mmhg|cel|fmol)\b`;
+
+// "12 - 16", "70 a 110", "< 200", "hasta 40" (opcionalmente con unidad o entre paréntesis)
+const RANGE = String.raw`(?:(?:v\.?\s?r\.?|ref(?:erencia)?\.?)\s*:?\s*)?[([]?\s*(?:(?:[<>≤≥]|hasta|menor (?:a|de)|mayor (?:a|de)|inferior a|superior a)\s*${NUMBER}|${NUMBER}\s*(?:-|–|a)\s*${NUMBER})(?:\s*(?:${UNIT}))?\s*[)\]]?`;
+
+// Fila de tabla: analito, valor, marca, unidad, rango de referencia, marca
+const LAB_ROW_PATTERN = new RegExp(
+  String.raw`^(?<analyte>[a-záéíóúüñ][a-záéíóúüñ\d .,()/+\-]*?)` +
+  String.raw`(?:\s*[.:…·_]{2,}\s*|\s*:?\s+)` +
+  String.raw`(?<value>[<>≤≥]?\s?${NUMBER}|${QUALITATIVE_VALUE})(?=\s|$)` +
+  String.raw`(?:\s*(?<flagBefore>${FLAG}))?` +
+  String.raw`(?:\s*(?<unit>${UNIT}))?` +
+  String.raw`(?:\s*(?<flagMiddle>${FLAG}))?` +
+  String.raw`(?:\s+(?<range>${RANGE}))?` +
+  String.raw`(?:\s*(?<flagAfter>${FLAG}))?\s*$`,
+  "i"
+);
+
+// "Fecha de toma de muestra: 12/03/2026", "Extracción: 12-03-26"
+const SAMPLE_DATE_PATTERN = /\b(?:fecha\s+de\s+)?(?:toma(?:\s+de\s+muestra)?|extracci[oó]n|muestra|recepci[oó]n)\s*[:.]?\s*(\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})/i;
+
+// "Fecha: 12/03/2026" (solo si el informe no indica la fecha de la muestra)
+const GENERIC_DATE_PATTERN = /\bfecha\b[^:\n]{0,30}:\s*(\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})/i;
+
+// ============================================
+// Interfaces
+// ============================================
+
+export type LabFlag = "high" | "low" | "abnormal" | "normal";
+
+export interface LabResult {
+  analyte: string;
+  value: string;                  // Tal como figura en el informe (ej: "13,5", "< 0,5", "Negativo")
+  numericValue: number | null;    // null para valores cualitativos
+  unit: string | null;
+  referenceRange: string | null;
+  flag: LabFlag | null;           // Marcado en el informe o calculado con el rango de referencia
+  sampleDate: string | null;      // YYYY-MM-DD
+  pageNumber: number;
+  rowIndex: number;               // Orden de la fila en el documento
+}
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Extrae las filas de las tablas de laboratorio del documento
+ * Una línea es fila si tiene analito, valor y unidad o rango de referencia;
+ * solo se conservan los bloques con varias filas seguidas (la grilla),
+ * para no confundir con datos sueltos de una evolución
+ *
+ * @param pages - Texto de cada página (con sus saltos de línea y tabulaciones)
+ * @returns Filas estructuradas en orden de aparición
+ */
+export function extractLabResults(pages: PageText[]): LabResult[] {
+  const results: LabResult[] = [];
+  let sampleDate: string | null = null;
+  let hasSampleDateLabel = false;
+
+  for (const page of pages) {
+    let block: LabResult[] = [];
+    let gapLines = 0;
+
+    const closeBlock = () => {
+      if (isLabTable(block)) results.push(...block);
+      block = [];
+      gapLines = 0;
+    };
+
+    for (const rawLine of page.text.split("\n")) {
+      const line = rawLine.replace(/\s+/g, " ").trim();
+      if (!line) continue;
+
+      // La fecha de la muestra vale para las filas que siguen (también en otras páginas)
+      const sampleMatch = line.match(SAMPLE_DATE_PATTERN);
+      const genericMatch = hasSampleDateLabel ? null : line.match(GENERIC_DATE_PATTERN);
+      const date = parseDate(sampleMatch?.[1] ?? genericMatch?.[1]);
+      if (date) {
+        sampleDate = date;
+        hasSampleDateLabel = hasSampleDateLabel || Boolean(sampleMatch);
+        continue;
+      }
+
+      const row = parseLabRow(line);
+      if (row) {
+        block.push({ ...row, sampleDate, pageNumber: page.pageNumber, rowIndex: 0 });
+        gapLines = 0;
+      } else if (block.length > 0 && ++gapLines > LAB_TABLE_CONFIG.maxGapLines) {
+        closeBlock();
+      }
+    }
+
+    closeBlock();
+  }
+
+  return results.map((result, index) => ({ ...result, rowIndex: index }));
+}
+
+// ============================================
+// Funciones auxiliares
+// ============================================
+
+type ParsedLabRow = Omit<LabResult, "sampleDate" | "pageNumber" | "rowIndex">;
+
+/**
+ * Interpreta una línea como fila de laboratorio
+ * @returns Fila sin fecha ni página, o null si la línea no es una fila
+ */
+function parseLabRow(line: string): ParsedLabRow | null {
+  const groups = line.match(LAB_ROW_PATTERN)?.groups;
+  if (!groups) return null;
+
+  const value = groups.value.trim();
+  const numericValue = /\d/.test(value) ? parseNumber(value.replace(/^[<>≤≥]\s?/, "")) : null;
+  const unit = groups.unit?.trim() || null;
+  const referenceRange = groups.range ? cleanRange(groups.range) : null;
+
+  // Un número sin unidad ni rango no se distingue de un dato suelto ("Edad 45")
+  if (numericValue !== null && !unit && !referenceRange) return null;
+
+  // Las marcas genéricas ("*") se precisan con el rango cuando es posible
+  const marked = groups.flagBefore ?? groups.flagMiddle ?? groups.flagAfter;
+  const markedFlag = marked ? parseFlag(marked) : null;
+  const rangeFlag = getRangeFlag(numericValue, referenceRange);
+
+  return {
+    analyte: groups.analyte.replace(/[\s.:…·_]+$/, "").trim(),
+    value,
+    numericValue,
+    unit,
+    referenceRange,
+    flag: markedFlag === "abnormal" && rangeFlag && rangeFlag !== "normal"
+      ? rangeFlag
+      : markedFlag ?? rangeFlag
+  };
+}
+
+/**
+ * Indica si un bloque de filas consecutivas forma una tabla
+ * Solo cuentan las filas con unidad o rango (las cualitativas acompañan);
+ * un bloque corto se acepta si todas esas filas traen rango de referencia
+ */
+function isLabTable(block: LabResult[]): boolean {
+  const measured = block.filter(row => row.unit !== null || row.referenceRange !== null);
+  if (measured.length === 0) return false;
+  return measured.length >= LAB_TABLE_CONFIG.minTableRows ||
+    measured.every(row => row.referenceRange !== null);
+}
+
+/**
+ * Quita la etiqueta ("VR:") y los paréntesis del rango de referencia
+ */
+function cleanRange(range: string): string {
+  return range
+    .trim()
+    .replace(/^(?:v\.?\s?r\.?|ref(?:erencia)?\.?)\s*:?\s*/i, "")
+    .replace(/^[([]\s*|\s*[)\]]$/g, "");
+}
+
+/**
+ * Convierte la marca del informe en un flag
+ */
+function parseFlag(marker: string): LabFlag {
+  const normalized = marker.toLowerCase();
+  if (["↑", "h", "alto", "elevado"].includes(normalized)) return "high";
+  if (["↓", "l", "bajo", "disminuido"].includes(normalized)) return "low";
+  return "abnormal";
+}
+
+/**
+ * Compara el valor con el rango de referencia ("12 - 16", "< 200", "hasta 40")
+ * @returns Flag calculado, o null si no se puede comparar
+ */
+function getRangeFlag(value: number | null, referenceRange: string | null): LabFlag | null {
+  if (value === null || !referenceRange) return null;
+
+  const numbers = (referenceRange.match(new RegExp(NUMBER, "g")) ?? [])
+    .map(parseNumber)
+    .filter((n): n is number => n !== null);
+  if (numbers.length === 0) return null;
+
+  const isUpperLimit = /[<≤]|hasta|menor|inferior/i.test(referenceRange);
+  const isLowerLimit = /[>≥]|mayor|superior/i.test(referenceRange);
+
+  if (isUpperLimit) return value > numbers[0] ? "high" : "normal";
+  if (isLowerLimit) return value < numbers[0] ? "low" : "normal";
+  if (numbers.length < 2) return null;
+
+  const [low, high] = numbers;
+  if (value < low) return "low";
+  if (value > high) return "high";
+  return "normal";
+}
+
+/**
+ * Convierte un número del informe ("13,5", "0.85", "250.000") en number
+ */
+function parseNumber(text: string): number | null {
+  let normalized = text.replace(/\s/g, "");
+
+  if (normalized.includes(",")) {
+    // Coma decimal: los puntos son separadores de miles
+    normalized = normalized.replace(/\./g, "").replace(",", ".");
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(normalized)) {
+    // "250.000": punto como separador de miles
+    normalized = normalized.replace(/\./g, "");
+  }
+
+  const value = Number(normalized);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Convierte una fecha dd/mm/aaaa (o dd-mm-aa) a YYYY-MM-DD
+ * Fechas imposibles ("31/02/2026") devuelven null: la columna DATE rechazaría toda la ingesta
+ */
+function parseDate(text: string | undefined): string | null {
+  if (!text) return null;
+
+  const [day, month, year] = text.split(/[/.-]/).map(Number);
+  const fullYear = year < 100 ? 2000 + year : year;
+  if (!day || !month || !Number.isInteger(fullYear)) return null;
+
+  // Date corrige el desborde (31/02 → 03/03): si no vuelve el mismo día, la fecha no existe
+  const date = new Date(Date.UTC(fullYear, month - 1, day));
+  if (date.getUTCFullYear() !== fullYear || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+
+  return date.toISOString().slice(0, 10);
+}
@@ -0,0 +1,110 @@
+import { createWorker, type Block } from "tesseract.js";
+import spanishLanguageData from "@tesseract.js-data/spa";
+import { toRelativeBox, PageTextItem } from "./text-layout";
+
+// ============================================
+// Configuración
+// ============================================
+
+const OCR_CONFIG = {
+  language: spanishLanguageData.code,   // Datos de idioma español incluidos localmente
+  langPath: spanishLanguageData.langPath,
+  gzip: spanishLanguageData.gzip,
+  renderScale: 2                        // Escala de renderizado (más resolución = mejor OCR)
+} as const;
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface PageImage {
+  pageNumber: number;
+  data: Uint8Array;       // Imagen PNG de la página renderizada
+  width?: number;         // Tamaño en píxeles, necesario para ubicar las líneas
+  height?: number;
+}
+
+export interface OCRPageResult {
+  pageNumber: number;
+  text: string;
+  confidence: number;     // Confianza promedio del OCR (0 a 1)
+  lines?: PageTextItem[]; // Líneas reconocidas con su posición (si se conoce el tamaño)
+}
+
+// ============================================
+// Funciones de OCR
+// ============================================
+
+/**
+ * Reconoce el texto de páginas escaneadas con Tesseract (WASM)
+ * Se ejecuta localmente, sin enviar las imágenes a servicios externos
+ *
+ * @param images - Imágenes de las páginas sin capa de texto
+ * @returns Texto reconocido y confianza por página
+ */
+export async function recognizePages(
+  images: PageImage[]
+): Promise<OCRPageResult[]> {
+  if (images.length === 0) return [];
+
+  const worker = await createWorker(OCR_CONFIG.language, undefined, {
+    langPath: OCR_CONFIG.langPath,
+    gzip: OCR_CONFIG.gzip,
+    cacheMethod: "none"
+  });
+
+  try {
+    const results: OCRPageResult[] = [];
+
+    // Procesar secuencialmente para no saturar memoria con páginas grandes
+    for (const image of images) {
+      const { data } = await worker.recognize(Buffer.from(image.data), {}, { blocks: true });
+      results.push({
+        pageNumber: image.pageNumber,
+        text: data.text,
+        confidence: data.confidence / 100,
+        lines: getLineLayout(data.blocks, image)
+      });
+    }
+
+    return results;
+  } finally {
+    await worker.terminate();
+  }
+}
+
+/**
+ * Posición de cada línea reconocida, relativa al tamaño de la imagen
+ * @param blocks - Bloques devueltos por Tesseract
+ * @param image - Imagen reconocida (con su tamaño)
+ * @returns Líneas con su posición o undefined si no se conoce el tamaño
+ */
+function getLineLayout(
+  blocks: Block[] | null,
+  image: PageImage
+): PageTextItem[] | undefined {
+  const { width, height } = image;
+  if (!blocks || !width || !height) return undefined;
+
+  return blocks
+    .flatMap(block => block.paragraphs)
+    .flatMap(paragraph => paragraph.lines)
+    .filter(line => line.text.trim())
+    .map(line => ({
+      text: line.text,
+      box: toRelativeBox(
+        line.bbox.x0,
+        line.bbox.y0,
+        line.bbox.x1 - line.bbox.x0,
+        line.bbox.y1 - line.bbox.y0,
+        width,
+        height
+      )
+    }));
+}
+
+// ============================================
+// Configuración exportada
+// ============================================
+
+export const OCR_RENDER_SCALE = OCR_CONFIG.renderScale;
@@ -1,246 +1,242 @@
-// Worker setup must be imported BEFORE pdf-parse
-import { getPath } from "pdf-parse/worker";
-import { PDFParse } from "pdf-parse";
-import { embedBatch, EMBEDDING_DIMENSIONS } from "./embeddings";
-
-// Configure worker for Next.js/serverless environment
-PDFParse.setWorker(getPath());
+import { embedBatch, getEmbeddingProvider, EmbeddingCacheUsage } from "./embeddings";
+import { loadDocument, PageText } from "./document-loaders";
+import { splitIntoChunks, ChunkingConfig, TextChunk, DEFAULT_CHUNKING_CONFIG } from "./chunking";
+import { stripBoilerplate, DocumentBoilerplate } from "./boilerplate";
+import { redactTexts, PHIMapping } from "./phi-redaction";
+import { locateChunks, BoundingBox } from "./text-layout";
+import { extractLabResults, LabResult } from "./lab-results";
+import { classifyDocument, classifySections, DocumentClassification, DocumentType } from "./document-classification";
+import { buildChunkContextHeader, getChunkContext, withContextHeader } from "./contextual-embeddings";
 
 // ============================================
 // Interfaces
 // ============================================
 
-interface ChunkingConfig {
-  chunkSize: number;      // Tamaño máximo del chunk en caracteres
-  chunkOverlap: number;   // Superposición entre chunks
+export interface ChunkMetadata {
+  documentType: DocumentType;         // Tipo de la sección del chunk (o del documento si no tiene sección)
+  processedAt: string;
+  extractionMethod?: "text" | "ocr";  // "ocr" si alguna página del chunk proviene de OCR
+  ocrConfidence?: number;             // Menor confianza de OCR entre las páginas del chunk
+  section?: string;                   // Sección clínica (ej: "Evolución", "Epicrisis")
 }
 
 export interface ProcessedChunk {
   content: string;
-  pageNumber: number;
+  pageNumber: number;     // Página donde comienza el chunk
+  endPageNumber: number;  // Página donde termina el chunk (igual a pageNumber si no cruza páginas)
   chunkIndex: number;
-  metadata: {
-    documentType: string;
-    processedAt: string;
-  };
+  tokenCount: number;     // Tokens del contenido según el tokenizer del modelo
+  charStart: number | null;         // Offsets en el texto extraído (ver text-layout), null si no se ubicó
+  charEnd: number | null;
+  boundingBoxes: BoundingBox[];     // Rectángulos relativos a cada página, vacío si no hay posiciones
+  metadata: ChunkMetadata;
 }
 
 export interface EmbeddedChunk extends ProcessedChunk {
   embedding: number[];
+  contextHeader: string | null;   // Encabezado antepuesto al contenido al vectorizar (ver contextual-embeddings)
 }
 
+// Etapas del procesamiento, informadas a medida que avanzan (ver ingestion-jobs)
+export type ProcessingStage = "extracting" | "chunking" | "embedding";
+
+export type ProcessingStageCallback = (stage: ProcessingStage) => void | Promise<void>;
+
 export interface PDFProcessingResult {
   success: boolean;
   chunks: ProcessedChunk[];
   totalPages: number;
   totalChunks: number;
+  labResults: LabResult[];   // Filas de las tablas de laboratorio (el texto sigue en los chunks)
   metadata: {
     title?: string;
     author?: string;
     creationDate?: string;
+    boilerplate?: DocumentBoilerplate;   // Encabezados y pies repetidos, guardados una sola vez
+    classification?: DocumentClassification;
   };
+  boilerplateMapping?: PHIMapping;   // PHI del membrete (nombre, DNI, HC), para desidentificar el resto del texto
   error?: string;
 }
 
-// ============================================
-// Configuración por defecto para documentos médicos
-// ============================================
-
-const MEDICAL_CHUNK_CONFIG: ChunkingConfig = {
-  chunkSize: 1200,        // 1000-1500 caracteres recomendado
-  chunkOverlap: 250       // 20% del chunk aproximadamente
-};
-
 // ============================================
 // Funciones principales
 // ============================================
 
 /**
- * Procesa un documento PDF y lo divide en chunks para vectorización
- * @param pdfBuffer - Buffer del archivo PDF
- * @param config - Configuración opcional de chunking
+ * Procesa un documento y lo divide en chunks para vectorización
+ * Acepta PDF, DOCX, TXT, HTML e imágenes (ver document-loaders)
+ * @param fileBuffer - Buffer del archivo
+ * @param config - Configuración opcional de chunking (estrategia y parámetros)
+ * @param mimeType - Tipo de contenido del archivo (default: PDF)
+ * @param filename - Nombre del archivo, para inferir el formato si falta el mimetype
+ * @param onStage - Se llama al comenzar cada etapa (opcional)
  * @returns Resultado del procesamiento con chunks
  */
 export async function processDocument(
-  pdfBuffer: Buffer,
-  config: ChunkingConfig = MEDICAL_CHUNK_CONFIG
+  fileBuffer: Buffer,
+  config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG,
+  mimeType: string = "application/pdf",
+  filename?: string,
+  onStage?: ProcessingStageCallback
 ): Promise<PDFProcessingResult> {
-  // Crear instancia del parser con el buffer
-  const parser = new PDFParse({ data: pdfBuffer });
-  
   try {
-    // 1. Obtener información del documento
-    const info = await parser.getInfo();
-    const totalPages = info.total || 0;
+    // 1. Convertir el archivo a texto por páginas (incluye OCR si hace falta)
+    await onStage?.("extracting");
+    const loaded = await loadDocument(fileBuffer, mimeType, filename);
+    const { totalPages } = loaded;
     
-    // 2. Extraer texto del PDF usando getText()
-    const textResult = await parser.getText();
-    const fullText = textResult.text;
+    // 2. Quitar membretes, pies y "Página X de Y" repetidos en cada página
+    const { pages, boilerplate } = stripBoilerplate(loaded.pages);
+    const metadata = { ...loaded.metadata, boilerplate };
+    
+    // El membrete se desidentifica primero: ahí suelen estar nombre, DNI e HC del paciente,
+    // que en el cuerpo pueden aparecer sin etiqueta. Todo texto que sale del servidor usa este mapping
+    const { mapping: boilerplateMapping } = redactTexts([...boilerplate.header, ...boilerplate.footer]);
     
     // 3. Verificar que hay contenido
-    if (!fullText || fullText.trim().length === 0) {
-      await parser.destroy();
+    if (pages.every(page => page.text.trim().length === 0)) {
       return {
         success: false,
         chunks: [],
         totalPages,
         totalChunks: 0,
+        labResults: [],
         metadata: {},
-        error: "El PDF no contiene texto extraíble. Puede ser un documento escaneado sin OCR."
+        error: "El documento no contiene texto extraíble, ni siquiera mediante OCR."
       };
     }
     
-    // 4. Dividir en chunks
-    const textChunks = splitIntoChunks(fullText, config);
+    // 4. Dividir en chunks conservando el rango de páginas
+    await onStage?.("chunking");
+    const textChunks = await splitIntoChunks(pages, config, boilerplateMapping);
+    
+    // 5. Clasificar el documento completo y cada una de sus secciones
+    const classification = await classifyDocument(
+      [loaded.metadata.title, ...pages.map(page => page.text)]
+        .filter(Boolean)
+        .join("\n"),
+      { phiMapping: boilerplateMapping, filename }
+    );
+    const chunkTypes = await classifyChunkSections(textChunks, classification, boilerplateMapping);
+    
+    // 6. Ubicar cada chunk en el texto extraído y en la página (para resaltarlo)
+    const locations = locateChunks(textChunks, loaded.pages);
     
-    // 5. Crear chunks procesados con metadata
-    const processedChunks: ProcessedChunk[] = textChunks.map((content, index) => ({
-      content,
-      pageNumber: estimatePageNumber(index, textChunks.length, totalPages),
+    // 7. Extraer las tablas de laboratorio como filas estructuradas
+    // Sobre el texto original: conserva las columnas y la fecha de muestra del membrete
+    const labResults = extractLabResults(loaded.pages);
+    
+    // 8. Crear chunks procesados con metadata
+    const processedChunks: ProcessedChunk[] = textChunks.map((chunk, index) => ({
+      content: chunk.content,
+      pageNumber: chunk.pageNumber,
+      endPageNumber: chunk.endPageNumber,
       chunkIndex: index,
+      tokenCount: chunk.tokenCount,
+      charStart: locations[index]?.charStart ?? null,
+      charEnd: locations[index]?.charEnd ?? null,
+      boundingBoxes: locations[index]?.boundingBoxes ?? [],
       metadata: {
-        documentType: "medical_record",
-        processedAt: new Date().toISOString()
+        documentType: chunkTypes[index],
+        processedAt: new Date().toISOString(),
+        ...getExtractionMetadata(chunk, pages),
+        ...(chunk.section ? { section: chunk.section } : {})
       }
     }));
     
-    // 6. Limpiar recursos
-    await parser.destroy();
-    
     return {
       success: true,
       chunks: processedChunks,
       totalPages,
       totalChunks: processedChunks.length,
-      metadata: {
-        title: info.info?.Title || undefined,
-        author: info.info?.Author || undefined,
-        creationDate: info.info?.CreationDate || undefined
-      }
+      labResults,
+      metadata: { ...metadata, classification },
+      boilerplateMapping
     };
     
   } catch (error) {
-    console.error("Error processing PDF:", error);
-    // Asegurar limpieza en caso de error
-    try {
-      await parser.destroy();
-    } catch {
-      // Ignorar errores al destruir
-    }
+    console.error("Error processing document:", error);
     return {
       success: false,
       chunks: [],
       totalPages: 0,
       totalChunks: 0,
+      labResults: [],
       metadata: {},
-      error: error instanceof Error ? error.message : "Error desconocido al procesar el PDF"
+      error: error instanceof Error ? error.message : "Error desconocido al procesar el documento"
     };
   }
 }
 
 /**
- * Divide el texto en chunks con superposición
- * @param text - Texto completo a dividir
- * @param config - Configuración de chunking
- * @returns Array de strings (chunks)
+ * Clasifica las secciones del documento y asigna el tipo a cada chunk
+ * Los chunks consecutivos de una misma sección se clasifican juntos
+ * @param chunks - Chunks del documento
+ * @param classification - Clasificación del documento completo
+ * @param phiMapping - Mapping PHI del membrete
+ * @returns Tipo documental de cada chunk, en el mismo orden
  */
-function splitIntoChunks(
-  text: string,
-  config: ChunkingConfig
-): string[] {
-  const { chunkSize, chunkOverlap } = config;
-  const chunks: string[] = [];
-  
-  // Limpiar el texto
-  const cleanedText = cleanText(text);
-  
-  // Dividir por párrafos primero (mejor para documentos médicos)
-  const paragraphs = cleanedText.split(/\n\n+/);
-  let currentChunk = "";
-  
-  for (const paragraph of paragraphs) {
-    const trimmedParagraph = paragraph.trim();
-    
-    if (!trimmedParagraph) continue;
-    
-    // Si añadir el párrafo excede el tamaño máximo
-    if ((currentChunk + "\n\n" + trimmedParagraph).length > chunkSize) {
-      if (currentChunk) {
-        chunks.push(currentChunk.trim());
-        
-        // Mantener overlap para contexto
-        const words = currentChunk.split(/\s+/);
-        const overlapWords = Math.ceil(chunkOverlap / 5); // ~5 chars per word
-        const overlap = words.slice(-overlapWords).join(" ");
-        currentChunk = overlap + "\n\n" + trimmedParagraph;
-      } else {
-        // Párrafo muy largo, dividir por oraciones
-        const sentences = trimmedParagraph.match(/[^.!?]+[.!?]+/g) || [trimmedParagraph];
-        
-        for (const sentence of sentences) {
-          if ((currentChunk + " " + sentence).length > chunkSize) {
-            if (currentChunk) {
-              chunks.push(currentChunk.trim());
-            }
-            currentChunk = sentence;
-          } else {
-            currentChunk += (currentChunk ? " " : "") + sentence;
-          }
-        }
-      }
+async function classifyChunkSections(
+  chunks: TextChunk[],
+  classification: DocumentClassification,
+  phiMapping: PHIMapping
+): Promise<DocumentType[]> {
+  // 1. Agrupar chunks consecutivos con la misma sección
+  const groups: { section?: string; indices: number[] }[] = [];
+  chunks.forEach((chunk, index) => {
+    const last = groups[groups.length - 1];
+    if (last && last.section === chunk.section) {
+      last.indices.push(index);
     } else {
-      currentChunk += (currentChunk ? "\n\n" : "") + trimmedParagraph;
+      groups.push({ section: chunk.section, indices: [index] });
     }
-  }
-  
-  // Agregar el último chunk si existe
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim());
-  }
-  
-  // Filtrar chunks muy pequeños (menos de 50 caracteres)
-  return chunks.filter(chunk => chunk.length >= 50);
-}
+  });
 
-/**
- * Limpia el texto extraído del PDF
- * @param text - Texto a limpiar
- * @returns Texto limpio
- */
-function cleanText(text: string): string {
-  return text
-    // Normalizar saltos de línea
-    .replace(/\r\n/g, "\n")
-    // Eliminar múltiples espacios
-    .replace(/[ \t]+/g, " ")
-    // Eliminar líneas vacías múltiples
-    .replace(/\n{3,}/g, "\n\n")
-    // Eliminar caracteres de control
-    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, "")
-    // Trim cada línea
-    .split("\n")
-    .map(line => line.trim())
-    .join("\n")
-    .trim();
+  // 2. Clasificar solo los grupos con sección; el resto hereda el tipo del documento
+  const sectionGroups = groups.filter(group => group.section);
+  const sectionResults = await classifySections(
+    sectionGroups.map(group => group.indices.map(index => chunks[index].content).join("\n")),
+    classification,
+    phiMapping
+  );
+
+  const types: DocumentType[] = chunks.map(() => classification.documentType);
+  sectionGroups.forEach((group, groupIndex) => {
+    for (const index of group.indices) {
+      types[index] = sectionResults[groupIndex].documentType;
+    }
+  });
+
+  return types;
 }
 
 /**
- * Estima el número de página para un chunk
- * @param chunkIndex - Índice del chunk
- * @param totalChunks - Total de chunks
- * @param totalPages - Total de páginas del PDF
- * @returns Número de página estimado
+ * Determina el origen del texto de un chunk según sus páginas
+ * @param chunk - Chunk con su rango de páginas
+ * @param pages - Páginas del documento
+ * @returns Metadata de extracción (método y confianza de OCR)
  */
-function estimatePageNumber(
-  chunkIndex: number,
-  totalChunks: number,
-  totalPages: number
-): number {
-  if (totalChunks === 0 || totalPages === 0) return 1;
+function getExtractionMetadata(
+  chunk: TextChunk,
+  pages: PageText[]
+): Pick<ChunkMetadata, "extractionMethod" | "ocrConfidence"> {
+  const ocrConfidences = pages
+    .filter(page =>
+      page.pageNumber >= chunk.pageNumber &&
+      page.pageNumber <= chunk.endPageNumber &&
+      page.source === "ocr"
+    )
+    .map(page => page.ocrConfidence ?? 0);
+  
+  if (ocrConfidences.length === 0) {
+    return { extractionMethod: "text" };
+  }
   
-  // Distribución proporcional
-  const pageEstimate = Math.floor((chunkIndex / totalChunks) * totalPages) + 1;
-  return Math.min(pageEstimate, totalPages);
+  return {
+    extractionMethod: "ocr",
+    ocrConfidence: Math.min(...ocrConfidences)
+  };
 }
 
 /**
@@ -281,29 +277,46 @@ export interface PDFEmbeddingResult {
   chunks: EmbeddedChunk[];
   totalPages: number;
   totalChunks: number;
+  labResults: LabResult[];
+  embeddingModel: string;
   embeddingDimensions: number;
+  embeddingCache?: EmbeddingCacheUsage;   // Chunks resueltos desde el cache de embeddings
+  phiMapping?: PHIMapping;   // Placeholders usados al desidentificar (guardar solo en el servidor)
   metadata: {
     title?: string;
     author?: string;
     creationDate?: string;
+    boilerplate?: DocumentBoilerplate;   // Encabezados y pies repetidos, guardados una sola vez
+    classification?: DocumentClassification;
   };
   error?: string;
 }
 
 /**
- * Procesa un documento PDF y genera embeddings para cada chunk
+ * Procesa un documento y genera embeddings para cada chunk
  * Combina extracción de texto + chunking + vectorización
  * 
- * @param pdfBuffer - Buffer del archivo PDF
+ * @param fileBuffer - Buffer del archivo
  * @param config - Configuración opcional de chunking
+ * @param mimeType - Tipo de contenido del archivo (default: PDF)
+ * @param filename - Nombre del archivo, para inferir el formato si falta el mimetype
+ * @param onStage - Se llama al comenzar cada etapa (opcional)
+ * @param contextual - Antepone título, tipo, sección y fecha a cada chunk al vectorizarlo
  * @returns Resultado con chunks y sus embeddings
  */
 export async function processAndEmbedDocument(
-  pdfBuffer: Buffer,
-  config: ChunkingConfig = MEDICAL_CHUNK_CONFIG
+  fileBuffer: Buffer,
+  config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG,
+  mimeType: string = "application/pdf",
+  filename?: string,
+  onStage?: ProcessingStageCallback,
+  contextual: boolean = false
 ): Promise<PDFEmbeddingResult> {
-  // 1. Procesar el PDF y obtener chunks
-  const processingResult = await processDocument(pdfBuffer, config);
+  // Proveedor configurado (EMBEDDING_PROVIDER / EMBEDDING_DIMENSIONS)
+  const embedding = getEmbeddingProvider();
+  
+  // 1. Procesar el documento y obtener chunks
+  const processingResult = await processDocument(fileBuffer, config, mimeType, filename, onStage);
   
   if (!processingResult.success) {
     return {
@@ -311,23 +324,36 @@ export async function processAndEmbedDocument(
       chunks: [],
       totalPages: processingResult.totalPages,
       totalChunks: 0,
-      embeddingDimensions: EMBEDDING_DIMENSIONS,
+      labResults: [],
+      embeddingModel: embedding.model,
+      embeddingDimensions: embedding.dimensions,
       metadata: processingResult.metadata,
       error: processingResult.error
     };
   }
   
   try {
-    // 2. Extraer textos de los chunks
-    const texts = processingResult.chunks.map(chunk => chunk.content);
+    // 2. Encabezado de contexto de cada chunk (solo para el embedding, el contenido queda igual)
+    const contextHeaders = processingResult.chunks.map(chunk => contextual
+      ? buildChunkContextHeader(getChunkContext({ ...processingResult.metadata, filename }, chunk.metadata))
+      : null
+    );
+    
+    // 3. Desidentificar los textos antes de enviarlos a Gemini, partiendo del mapping del membrete
+    const { texts, mapping: phiMapping } = redactTexts(
+      processingResult.chunks.map((chunk, index) => withContextHeader(contextHeaders[index], chunk.content)),
+      processingResult.boilerplateMapping
+    );
     
-    // 3. Generar embeddings en batch
-    const batchResult = await embedBatch(texts);
+    // 4. Generar embeddings en batch (lanza un error si algún chunk no se pudo vectorizar)
+    await onStage?.("embedding");
+    const batchResult = await embedBatch(texts, embedding);
     
-    // 4. Combinar chunks con embeddings
+    // 5. Combinar chunks con embeddings
     const embeddedChunks: EmbeddedChunk[] = processingResult.chunks.map((chunk, index) => ({
       ...chunk,
-      embedding: batchResult.embeddings[index]?.embedding ?? []
+      embedding: batchResult.embeddings[index].embedding,
+      contextHeader: contextHeaders[index]
     }));
     
     return {
@@ -335,7 +361,11 @@ export async function processAndEmbedDocument(
       chunks: embeddedChunks,
       totalPages: processingResult.totalPages,
       totalChunks: embeddedChunks.length,
-      embeddingDimensions: EMBEDDING_DIMENSIONS,
+      labResults: processingResult.labResults,
+      embeddingModel: embedding.model,
+      embeddingDimensions: embedding.dimensions,
+      embeddingCache: batchResult.cache,
+      phiMapping,
       metadata: processingResult.metadata
     };
     
@@ -346,7 +376,9 @@ export async function processAndEmbedDocument(
       chunks: [],
       totalPages: processingResult.totalPages,
       totalChunks: 0,
-      embeddingDimensions: EMBEDDING_DIMENSIONS,
+      labResults: [],
+      embeddingModel: embedding.model,
+      embeddingDimensions: embedding.dimensions,
       metadata: processingResult.metadata,
       error: error instanceof Error ? error.message : "Error desconocido al generar embeddings"
     };
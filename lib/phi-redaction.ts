@@ -0,0 +1,516 @@
+import { supabaseAdmin, DocumentPHIMapping } from "./supabase";
+
+// ============================================
+// Interfaces
+// ============================================
+
+// Placeholder → valor original (ej: "[DNI_1]" → "12.345.678")
+// Se guarda solo en el servidor, nunca se envía a servicios externos
+export type PHIMapping = Record<string, string>;
+
+export type PHIType =
+  | "NOMBRE"
+  | "DNI"
+  | "CUIL"
+  | "TELEFONO"
+  | "DIRECCION"
+  | "HISTORIA_CLINICA"
+  | "AFILIADO";
+
+export interface RedactionResult {
+  text: string;
+  mapping: PHIMapping;    // Mapping recibido más los valores nuevos detectados
+}
+
+export interface BatchRedactionResult {
+  texts: string[];
+  mapping: PHIMapping;
+}
+
+interface PHIDetector {
+  type: PHIType;
+  pattern: RegExp;                            // Debe tener flag "g"
+  extract?: (match: RegExpExecArray) => string | null;  // Valor a reemplazar (default: grupo 1 o match completo)
+}
+
+interface PHIMatch {
+  type: PHIType;
+  value: string;
+  start: number;
+  end: number;
+}
+
+// ============================================
+// Detectores
+// ============================================
+
+// Palabra de un nombre propio: "Pérez", "PÉREZ", "O'Connor", "García-López"
+const NAME_WORD = /^[A-ZÁÉÍÓÚÑÜ][A-Za-zÁÉÍÓÚÑÜáéíóúñü'\-]+,?$/;
+
+// Palabras con mayúscula que suelen seguir al nombre en los membretes
+const NAME_STOPWORDS = new Set([
+  "dni", "hc", "cuil", "cuit", "edad", "sexo", "fecha", "cama", "sala", "obra",
+  "social", "afiliado", "tel", "teléfono", "domicilio", "le", "lc", "nº", "n°",
+  "historia", "servicio", "matrícula", "mp", "mn", "fn", "nacimiento",
+  "en", "con", "sin", "de", "del", "y", "refiere", "presenta", "ingresa"
+]);
+
+const MAX_NAME_WORDS = 4;
+
+// Campos que preceden a un nombre de persona ("Paciente: ...")
+const NAME_FIELD_LABELS = [
+  "paciente", "nombre y apellido", "apellido y nombres?", "nombres?", "apellidos?",
+  "m[eé]dic[oa](?: tratante)?", "familiar", "madre", "padre", "c[oó]nyuge",
+  "esposo", "esposa", "responsable", "firmado por", "atendido por"
+].join("|");
+
+// Tratamientos que preceden a un nombre sin dos puntos ("Dra. Gómez")
+const NAME_TITLES = ["sr", "sra", "srta", "dr", "dra", "lic"].join("|");
+
+// Campos identificatorios que, en la misma línea, hacen de un número con puntos un DNI
+// Sin ellos "Plaquetas 1.250.000" es un recuento, no un documento
+const IDENTITY_CONTEXT = /\b(?:d\.?\s?n\.?\s?i|documento|doc|paciente|nombre|apellidos?|edad|sexo|nacimiento|afiliado|h\.?\s?c|historia cl[ií]nica)\b/i;
+
+// Unidad o rango de referencia pegados al número: "4.500.000 /mm3", "4.200.000 - 5.400.000"
+const UNIT_OR_RANGE_AFTER = /^\s*(?:\/|x\s?10|%|(?:mm|[uµμ]l|c[eé]l|g\/|mg|u\/)|[-–]\s*\d|a\s+\d)/i;
+const RANGE_BEFORE = /\d\s*[-–]\s*$|\d\s+a\s+$/;
+
+const PHI_DETECTORS: PHIDetector[] = [
+  // CUIL/CUIT: 20-12345678-9 (antes que DNI porque lo contiene)
+  {
+    type: "CUIL",
+    pattern: /\b(?:20|23|24|27|30|33|34)[-.\s]?\d{2}\.?\d{3}\.?\d{3}[-.\s]?\d\b/g,
+    extract: match => isCuil(match[0]) ? match[0] : null
+  },
+  // DNI argentino con etiqueta: "DNI: 12345678", "D.N.I. Nº 12.345.678"
+  {
+    type: "DNI",
+    pattern: /\b(?:D\.?\s?N\.?\s?I\.?|L\.?\s?E\.?|L\.?\s?C\.?|documento(?: nacional de identidad)?)\s*(?:n[°ºo]\.?\s*)?:?\s*(\d{1,2}\.?\d{3}\.?\d{3})\b/gi
+  },
+  // DNI argentino con puntos sin etiqueta: 12.345.678 (solo junto a campos identificatorios)
+  {
+    type: "DNI",
+    pattern: /\b\d{1,2}\.\d{3}\.\d{3}\b/g,
+    extract: match => hasIdentityContext(match) ? match[0] : null
+  },
+  // DNI / NIE español: 12345678Z, X1234567L
+  { type: "DNI", pattern: /\b(?:\d{8}|[XYZ]\d{7})[A-HJ-NP-TV-Z]\b/g },
+  // Historia clínica: "HC: 123456", "Historia clínica Nº 45-678"
+  {
+    type: "HISTORIA_CLINICA",
+    pattern: /\b(?:H\.?\s?C\.?|historia cl[ií]nica|legajo|n[°º]?\s*de\s*HC)\s*(?:n[°ºo]\.?\s*)?:?\s*([A-Z]{0,3}\d[\d\-/.]*)/gi
+  },
+  // Número de afiliado de obra social o prepaga: "Afiliado Nº: 12345678/01"
+  {
+    type: "AFILIADO",
+    pattern: /\b(?:n[°ºo]?\.?\s*(?:de\s*)?(?:afiliado|beneficiario|socio)|afiliado|beneficiario|credencial|carnet)\s*(?:n[°ºo]\.?\s*)?:?\s*([A-Z0-9]*\d[A-Z0-9\-/.]{3,})/gi
+  },
+  // Teléfono con etiqueta: "Tel: (011) 4567-8901", "Cel. 15-2345-6789"
+  {
+    type: "TELEFONO",
+    pattern: /\b(?:tel[eé]fono|tel|cel(?:ular)?|m[oó]vil|whatsapp)\.?\s*:?\s*(\+?[\d(][\d\s\-()]{6,}\d)/gi
+  },
+  // Teléfono argentino sin etiqueta: +54 9 11 2345-6789, 011 4567-8901, 15-2345-6789
+  { type: "TELEFONO", pattern: /(?:\+54[\s-]?9?[\s-]?\d{2,4}|\b0\d{2,4}|\b15)[\s-]?\d{3,4}[\s-]\d{4}\b/g },
+  // Domicilio con etiqueta: el resto de la línea
+  {
+    type: "DIRECCION",
+    pattern: /\b(?:domicilio|direcci[oó]n|dom\.|reside en)\s*:?[ \t]*([^\n;]{4,80})/gi,
+    extract: match => match[1].trim().replace(/[.,]$/, "")
+  },
+  // Domicilio sin etiqueta: "Av. Corrientes 1234", "calle San Martín 567"
+  {
+    type: "DIRECCION",
+    pattern: /\b(?:[Cc]alle|[Aa]v\.|[Aa]venida|[Pp]asaje|[Bb]v\.|[Bb]oulevard)\s+[A-ZÁÉÍÓÚÑ0-9][\wÁÉÍÓÚÑáéíóúñ.]*(?:\s+[A-ZÁÉÍÓÚÑ][\wÁÉÍÓÚÑáéíóúñ.]*){0,3}\s+\d{1,5}\b/g
+  },
+  // Nombres con etiqueta: "Paciente: PÉREZ, Juan Carlos"
+  {
+    type: "NOMBRE",
+    pattern: new RegExp(`\\b(?:${NAME_FIELD_LABELS})\\b[ \\t]*:[ \\t]*([^\\n]+)`, "gi"),
+    extract: match => extractName(match[1])
+  },
+  // Nombres con tratamiento: "Dra. Gómez", "Sr. Juan Pérez"
+  {
+    type: "NOMBRE",
+    pattern: new RegExp(`\\b(?:${NAME_TITLES})\\b\\.?[ \\t]+([^\\n]+)`, "gi"),
+    extract: match => extractName(match[1])
+  }
+];
+
+const PLACEHOLDER_PATTERN = /\[(NOMBRE|DNI|CUIL|TELEFONO|DIRECCION|HISTORIA_CLINICA|AFILIADO)_\d+\]/g;
+
+// Largo máximo de un placeholder, para no cortarlos al hacer streaming
+const MAX_PLACEHOLDER_LENGTH = "[HISTORIA_CLINICA_9999]".length;
+
+// Valores más cortos se reemplazan solo donde los detecta un patrón
+const MIN_PROPAGATED_VALUE_LENGTH = 4;
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Reemplaza los datos identificatorios de un texto por placeholders
+ * Un mismo valor recibe siempre el mismo placeholder dentro del mapping
+ *
+ * @param text - Texto a desidentificar
+ * @param mapping - Mapping existente del documento (opcional)
+ * @returns Texto desidentificado y mapping actualizado
+ */
+export function redactText(text: string, mapping: PHIMapping = {}): RedactionResult {
+  const updatedMapping = { ...mapping };
+
+  // 1. Reemplazar valores ya conocidos (ej: el nombre del paciente sin etiqueta)
+  let redacted = replaceKnownValues(text, updatedMapping);
+
+  // 2. Detectar valores nuevos con los patrones
+  const matches = findMatches(redacted);
+  let result = "";
+  let cursor = 0;
+
+  for (const match of matches) {
+    const placeholder = getPlaceholder(updatedMapping, match.type, match.value);
+    result += redacted.slice(cursor, match.start) + placeholder;
+    cursor = match.end;
+  }
+  redacted = result + redacted.slice(cursor);
+
+  // 3. Reemplazar otras apariciones de los valores recién detectados
+  redacted = replaceKnownValues(redacted, updatedMapping);
+
+  return { text: redacted, mapping: updatedMapping };
+}
+
+/**
+ * Desidentifica varios textos compartiendo el mismo mapping
+ * Útil para los chunks de un documento: el paciente es "[NOMBRE_1]" en todos
+ *
+ * @param texts - Textos a desidentificar
+ * @param mapping - Mapping existente del documento (opcional)
+ * @returns Textos desidentificados y mapping actualizado
+ */
+export function redactTexts(texts: string[], mapping: PHIMapping = {}): BatchRedactionResult {
+  let currentMapping = mapping;
+
+  const redactedTexts = texts.map(text => {
+    const result = redactText(text, currentMapping);
+    currentMapping = result.mapping;
+    return result.text;
+  });
+
+  return { texts: redactedTexts, mapping: currentMapping };
+}
+
+/**
+ * Restituye los valores originales en un texto con placeholders
+ * Solo debe usarse para mostrar la respuesta a un usuario autorizado
+ *
+ * @param text - Texto con placeholders (ej: respuesta del LLM)
+ * @param mapping - Mapping del documento
+ * @returns Texto con los valores originales
+ */
+export function reidentifyText(text: string, mapping: PHIMapping): string {
+  return text.replace(PLACEHOLDER_PATTERN, placeholder => mapping[placeholder] ?? placeholder);
+}
+
+/**
+ * Quita los placeholders de un texto desidentificado
+ * Útil donde un placeholder no significa nada (ej: términos de una búsqueda por palabras clave)
+ *
+ * @param text - Texto con placeholders
+ * @returns Texto sin placeholders
+ */
+export function removePlaceholders(text: string): string {
+  return text.replace(PLACEHOLDER_PATTERN, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Restituye los valores originales en una respuesta en streaming
+ * Retiene el final de cada fragmento si puede ser un placeholder incompleto
+ *
+ * @param stream - Fragmentos de texto con placeholders
+ * @param mapping - Mapping del documento
+ * @yields Fragmentos con los valores originales
+ */
+export async function* reidentifyStream(
+  stream: AsyncIterable<string>,
+  mapping: PHIMapping
+): AsyncGenerator<string> {
+  let pending = "";
+
+  for await (const chunk of stream) {
+    pending += chunk;
+
+    // Retener desde el último "[" sin cerrar, si todavía puede completarse
+    const openIndex = pending.lastIndexOf("[");
+    const isIncomplete =
+      openIndex >= 0 &&
+      !pending.includes("]", openIndex) &&
+      pending.length - openIndex < MAX_PLACEHOLDER_LENGTH;
+
+    const ready = isIncomplete ? pending.slice(0, openIndex) : pending;
+    pending = isIncomplete ? pending.slice(openIndex) : "";
+
+    if (ready) {
+      yield reidentifyText(ready, mapping);
+    }
+  }
+
+  if (pending) {
+    yield reidentifyText(pending, mapping);
+  }
+}
+
+// ============================================
+// Persistencia del mapping
+// ============================================
+
+/**
+ * Guarda el mapping de placeholders de un documento
+ * La tabla no tiene políticas RLS: solo el servidor (service role) puede leerla
+ *
+ * @param documentId - ID del documento
+ * @param mapping - Mapping completo del documento
+ * @returns true si se guardó correctamente
+ */
+export async function savePHIMapping(
+  documentId: string,
+  mapping: PHIMapping
+): Promise<boolean> {
+  try {
+    const { error } = await supabaseAdmin
+      .from("document_phi_mappings")
+      .upsert({
+        document_id: documentId,
+        mapping,
+        updated_at: new Date().toISOString()
+      });
+
+    if (error) {
+      console.error("Error saving PHI mapping:", error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error("Error in savePHIMapping:", error);
+    return false;
+  }
+}
+
+/**
+ * Obtiene el mapping de placeholders de un documento
+ *
+ * @param documentId - ID del documento
+ * @returns Mapping del documento (vacío si no existe)
+ */
+export async function getPHIMapping(documentId: string): Promise<PHIMapping> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("document_phi_mappings")
+      .select("mapping")
+      .eq("document_id", documentId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error getting PHI mapping:", error);
+      return {};
+    }
+
+    return (data as Pick<DocumentPHIMapping, "mapping"> | null)?.mapping ?? {};
+  } catch (error) {
+    console.error("Error in getPHIMapping:", error);
+    return {};
+  }
+}
+
+// ============================================
+// Funciones auxiliares
+// ============================================
+
+/**
+ * Busca datos identificatorios con todos los detectores
+ * Si dos coincidencias se superponen gana la que empieza antes (o la más larga)
+ */
+function findMatches(text: string): PHIMatch[] {
+  const matches: PHIMatch[] = [];
+
+  for (const detector of PHI_DETECTORS) {
+    for (const match of text.matchAll(detector.pattern)) {
+      const value = detector.extract
+        ? detector.extract(match as RegExpExecArray)
+        : (match[1] ?? match[0]);
+
+      if (!value) continue;
+
+      const offset = match[0].indexOf(value);
+      if (offset < 0) continue;
+
+      const start = (match.index ?? 0) + offset;
+      matches.push({ type: detector.type, value, start, end: start + value.length });
+    }
+  }
+
+  matches.sort((a, b) => a.start - b.start || (b.end - b.start) - (a.end - a.start));
+
+  const selected: PHIMatch[] = [];
+  for (const match of matches) {
+    const previous = selected[selected.length - 1];
+    if (!previous || match.start >= previous.end) {
+      selected.push(match);
+    }
+  }
+
+  return selected;
+}
+
+/**
+ * Extrae el nombre de persona al comienzo de un texto
+ * "PÉREZ, Juan Carlos  DNI 12.345.678" → "PÉREZ, Juan Carlos"
+ */
+function extractName(text: string): string | null {
+  const words: string[] = [];
+
+  for (const word of text.trim().split(/\s+/)) {
+    if (words.length >= MAX_NAME_WORDS) break;
+    if (!NAME_WORD.test(word) || NAME_STOPWORDS.has(word.toLowerCase().replace(/[,.:]$/, ""))) break;
+    words.push(word);
+  }
+
+  if (words.length === 0) return null;
+
+  return words.join(" ").replace(/,$/, "");
+}
+
+/**
+ * Indica si un número sin etiqueta está en una línea con campos identificatorios
+ * y no es un valor con unidad o parte de un rango de referencia
+ */
+function hasIdentityContext(match: RegExpExecArray): boolean {
+  const start = match.index;
+  const end = start + match[0].length;
+  const lineStart = match.input.lastIndexOf("\n", start - 1) + 1;
+  const lineEnd = match.input.indexOf("\n", end);
+  const before = match.input.slice(lineStart, start);
+  const after = match.input.slice(end, lineEnd < 0 ? undefined : lineEnd);
+
+  if (UNIT_OR_RANGE_AFTER.test(after) || RANGE_BEFORE.test(before)) {
+    return false;
+  }
+
+  return IDENTITY_CONTEXT.test(before) || IDENTITY_CONTEXT.test(after);
+}
+
+/**
+ * Valida el dígito verificador de un CUIL/CUIT
+ */
+function isCuil(value: string): boolean {
+  const digits = value.replace(/\D/g, "");
+  if (digits.length !== 11) return false;
+
+  const weights = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2];
+  const sum = weights.reduce((total, weight, index) => total + weight * Number(digits[index]), 0);
+  const remainder = 11 - (sum % 11);
+  const checkDigit = remainder === 11 ? 0 : remainder === 10 ? 9 : remainder;
+
+  return checkDigit === Number(digits[10]);
+}
+
+/**
+ * Normaliza un valor para reconocer el mismo dato escrito distinto
+ * "12.345.678" y "12345678" son el mismo DNI
+ */
+function normalizeValue(type: PHIType, value: string): string {
+  if (type === "NOMBRE" || type === "DIRECCION") {
+    return value.toLowerCase().replace(/[,.]/g, "").replace(/\s+/g, " ").trim();
+  }
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Devuelve el placeholder de un valor, creándolo si es nuevo
+ */
+function getPlaceholder(mapping: PHIMapping, type: PHIType, value: string): string {
+  const normalized = normalizeValue(type, value);
+
+  const existing = Object.entries(mapping).find(([placeholder, original]) =>
+    placeholder.startsWith(`[${type}_`) && normalizeValue(type, original) === normalized
+  );
+  if (existing) return existing[0];
+
+  const count = Object.keys(mapping).filter(placeholder => placeholder.startsWith(`[${type}_`)).length;
+  const placeholder = `[${type}_${count + 1}]`;
+  mapping[placeholder] = value;
+
+  return placeholder;
+}
+
+/**
+ * Reemplaza las apariciones literales de valores ya presentes en el mapping
+ * Los valores más largos primero para no reemplazar parcialmente
+ */
+function replaceKnownValues(text: string, mapping: PHIMapping): string {
+  const entries = Object.entries(mapping)
+    .filter(([, original]) => original.length >= MIN_PROPAGATED_VALUE_LENGTH)
+    .sort(([, a], [, b]) => b.length - a.length);
+
+  return entries.reduce((current, [placeholder, original]) => {
+    const escaped = original.replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+");
+    const pattern = new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "giu");
+    const replaced = current.replace(pattern, placeholder);
+
+    return placeholder.startsWith("[NOMBRE_")
+      ? replaceNameVariants(replaced, placeholder, original)
+      : replaced;
+  }, text);
+}
+
+/**
+ * Reemplaza un nombre escrito en otro orden o sin acentos
+ * "PÉREZ, Juan Carlos" también cubre "Juan Carlos Perez" y "Juan Pérez"
+ * Se exigen al menos dos palabras del nombre seguidas para evitar falsos positivos
+ */
+function replaceNameVariants(text: string, placeholder: string, name: string): string {
+  const nameWords = new Set(name.split(/[\s,]+/).map(normalizeNameWord).filter(Boolean));
+  if (nameWords.size < 2) return text;
+
+  // Secuencias de palabras separadas solo por espacios o comas
+  return text.replace(/[\p{L}'\-]+(?:[\s,]+[\p{L}'\-]+)+/gu, sequence => {
+    const words = sequence.split(/([\s,]+)/);
+    let result = "";
+    let run: string[] = [];
+
+    const flush = () => {
+      const wordCount = run.filter((_, index) => index % 2 === 0).length;
+      result += wordCount >= 2 ? placeholder + (run.length % 2 === 0 ? run[run.length - 1] : "") : run.join("");
+      run = [];
+    };
+
+    words.forEach((part, index) => {
+      const isWord = index % 2 === 0;
+      if (isWord && nameWords.has(normalizeNameWord(part))) {
+        run.push(part);
+      } else if (isWord) {
+        if (run.length > 0) flush();
+        result += part;
+      } else if (run.length > 0) {
+        run.push(part);
+      } else {
+        result += part;
+      }
+    });
+    if (run.length > 0) flush();
+
+    return result;
+  });
+}
+
+/**
+ * Normaliza una palabra de un nombre (sin acentos ni mayúsculas)
+ */
+function normalizeNameWord(word: string): string {
+  return word
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
@@ -0,0 +1,128 @@
+import { GoogleGenAI } from "@google/genai";
+import { getRecentChatHistory, formatChatHistory } from "./chat-memory";
+import { redactTexts, reidentifyText, PHIMapping } from "./phi-redaction";
+
+// ============================================
+// Configuración
+// ============================================
+
+// Variantes por defecto: QUERY_VARIANTS (0 = solo la consulta reformulada)
+const QUERY_REWRITING_CONFIG = {
+  model: "gemini-2.0-flash",
+  historyMessages: 6,       // Mensajes recientes que se usan para resolver la referencia
+  maxVariants: 4            // Variantes adicionales como máximo (cada una es una búsqueda)
+} as const;
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface QueryRewriteResult {
+  original: string;         // Mensaje tal como lo escribió el usuario
+  query: string;            // Consulta autónoma usada para buscar
+  variants: string[];       // Formulaciones alternativas (sin incluir query)
+  rewritten: boolean;       // false si se busca solo con el mensaje original (sin cambios, sin historial o si falló el modelo)
+}
+
+// Se crea al primer uso: sin historial ni variantes no se llama al modelo
+let geminiClient: GoogleGenAI | null = null;
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Reescribe un mensaje de seguimiento como consulta autónoma para la búsqueda
+ * Ej: "¿y la dosis?" después de hablar de metformina → "dosis de metformina"
+ * Opcionalmente genera variantes de la consulta para buscar con cada una
+ * Si el modelo falla se busca con el mensaje original
+ *
+ * @param message - Mensaje del usuario
+ * @param sessionId - Sesión de chat (sus últimos mensajes, antes del actual)
+ * @param options - Variantes a generar (default: QUERY_VARIANTS) y mapping PHI del documento
+ * @returns Consulta autónoma, variantes y el mensaje original
+ */
+export async function rewriteQuery(
+  message: string,
+  sessionId: string,
+  options: { variants?: number; phiMapping?: PHIMapping } = {}
+): Promise<QueryRewriteResult> {
+  const variants = Math.min(
+    Math.max(0, Math.floor(options.variants ?? getDefaultVariants())),
+    QUERY_REWRITING_CONFIG.maxVariants
+  );
+  const unchanged: QueryRewriteResult = { original: message, query: message, variants: [], rewritten: false };
+  const recentHistory = await getRecentChatHistory(sessionId, QUERY_REWRITING_CONFIG.historyMessages);
+
+  // Primer mensaje de la sesión sin variantes: no hay nada que reescribir
+  if (recentHistory.length === 0 && variants === 0) {
+    return unchanged;
+  }
+
+  // El modelo recibe historial y mensaje desidentificados; la consulta vuelve re-identificada
+  // como la escribiría el usuario: cada búsqueda la desidentifica con el mapping del documento
+  const {
+    texts: [redactedHistory, redactedMessage],
+    mapping
+  } = redactTexts([formatChatHistory(recentHistory), message], options.phiMapping);
+
+  const prompt = `Reescribe la última pregunta del usuario como una consulta de búsqueda autónoma sobre un documento médico.
+Reemplaza pronombres y referencias ("eso", "y la dosis?", "el anterior") por lo que mencionan en la conversación.
+Si la pregunta ya se entiende sola, devuélvela sin cambios. No respondas la pregunta.
+Conserva tal cual los marcadores como [NOMBRE_1].
+${variants > 0 ? `Además, escribe ${variants} formulaciones alternativas de la misma consulta (sinónimos, términos médicos, siglas).` : ""}
+
+Responde solo con JSON: {"query": "<consulta>", "variants": [${variants > 0 ? `"<variante>", ...` : ""}]}
+
+Conversación:
+${redactedHistory || "Sin historial previo."}
+
+Última pregunta: ${redactedMessage}`;
+
+  try {
+    geminiClient ??= new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
+
+    const response = await geminiClient.models.generateContent({
+      model: QUERY_REWRITING_CONFIG.model,
+      contents: prompt,
+      config: { temperature: 0, responseMimeType: "application/json" }
+    });
+
+    const parsed = JSON.parse(response.text ?? "{}") as { query?: unknown; variants?: unknown };
+
+    if (typeof parsed.query !== "string" || !parsed.query.trim()) {
+      return unchanged;
+    }
+
+    const query = reidentifyText(parsed.query.trim(), mapping);
+    const alternatives = Array.isArray(parsed.variants)
+      ? parsed.variants
+        .filter((variant): variant is string => typeof variant === "string" && variant.trim().length > 0)
+        .map(variant => reidentifyText(variant.trim(), mapping))
+      : [];
+
+    const uniqueVariants = [...new Set(alternatives)].filter(variant => variant !== query).slice(0, variants);
+
+    return {
+      original: message,
+      query,
+      variants: uniqueVariants,
+      rewritten: query !== message || uniqueVariants.length > 0
+    };
+  } catch (error) {
+    console.error("Error rewriting query:", error);
+    return unchanged;
+  }
+}
+
+// ============================================
+// Funciones auxiliares
+// ============================================
+
+/**
+ * Cantidad de variantes configurada para el entorno
+ */
+function getDefaultVariants(): number {
+  const configured = Number(process.env.QUERY_VARIANTS);
+  return Number.isInteger(configured) && configured > 0 ? configured : 0;
+}
@@ -0,0 +1,289 @@
+import { supabaseAdmin, DocumentChunk, EmbeddingMigration } from "./supabase";
+import { embedBatch, getEmbeddingProvider, EmbeddingTarget, ResolvedEmbeddingProvider } from "./embeddings";
+import { redactText, getPHIMapping, PHIMapping } from "./phi-redaction";
+import { withContextHeader } from "./contextual-embeddings";
+
+// ============================================
+// Configuración
+// ============================================
+
+const REEMBEDDING_CONFIG = {
+  batchSize: 100,           // Chunks por batch
+  timeBudgetMs: 240_000     // Por ejecución (menor que maxDuration de la ruta); la siguiente continúa
+} as const;
+
+// ============================================
+// Interfaces
+// ============================================
+
+export interface StartReembeddingResult {
+  success: boolean;
+  migrationId?: string;
+  error?: string;
+}
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Registra una re-vectorización de todos los chunks a otro modelo o dimensión
+ * Si ya hay una en curso hacia el mismo destino, devuelve esa
+ *
+ * @param target - Proveedor y dimensión de destino
+ * @returns Resultado con el ID de la corrida
+ */
+export async function startReembedding(target: EmbeddingTarget): Promise<StartReembeddingResult> {
+  try {
+    const embedding = getEmbeddingProvider(target);
+
+    const { data: running, error: runningError } = await supabaseAdmin
+      .from("embedding_migrations")
+      .select("id")
+      .in("status", ["running", "ready"])
+      .eq("model", embedding.model)
+      .eq("dimensions", embedding.dimensions)
+      .limit(1)
+      .maybeSingle();
+
+    if (runningError) {
+      console.error("Error finding running embedding migration:", runningError);
+      return { success: false, error: `Error al buscar re-vectorizaciones en curso: ${runningError.message}` };
+    }
+
+    if (running) {
+      return { success: true, migrationId: running.id };
+    }
+
+    const { count, error: countError } = await selectPendingChunks(embedding, "id", { count: "exact", head: true });
+
+    if (countError) {
+      console.error("Error counting chunks to re-embed:", countError);
+      return { success: false, error: `Error al contar chunks: ${countError.message}` };
+    }
+
+    const { data, error } = await supabaseAdmin
+      .from("embedding_migrations")
+      .insert({
+        provider: embedding.provider,
+        model: embedding.model,
+        dimensions: embedding.dimensions,
+        total: count ?? 0
+      })
+      .select("id")
+      .single();
+
+    if (error) {
+      console.error("Error creating embedding migration:", error);
+      return { success: false, error: `Error al registrar la re-vectorización: ${error.message}` };
+    }
+
+    return { success: true, migrationId: data.id };
+  } catch (error) {
+    console.error("Error in startReembedding:", error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : "Error desconocido"
+    };
+  }
+}
+
+/**
+ * Avanza una re-vectorización hasta terminarla o agotar el tiempo de la ejecución
+ * 1. Vectoriza en batches los chunks pendientes y guarda el vector en embedding_next
+ *    (la búsqueda sigue usando el vector actual)
+ * 2. Cuando no quedan pendientes y el entorno (EMBEDDING_PROVIDER / EMBEDDING_DIMENSIONS) ya usa
+ *    el destino, pasa todos los vectores nuevos a embedding de una vez. Mientras el entorno use el
+ *    modelo anterior la corrida queda "ready" y solo vectoriza los chunks nuevos
+ * Reanudable: el avance queda en los propios chunks; la próxima ejecución sigue donde quedó
+ *
+ * @param migrationId - ID de la corrida
+ * @returns Estado de la corrida al terminar la ejecución
+ */
+export async function runReembedding(migrationId: string): Promise<EmbeddingMigration | null> {
+  const migration = await getReembedding(migrationId);
+
+  if (!migration || (migration.status !== "running" && migration.status !== "ready")) {
+    return migration;
+  }
+
+  const startedAt = Date.now();
+  const target: EmbeddingTarget = { provider: migration.provider, dimensions: migration.dimensions };
+  const mappings = new Map<string, PHIMapping>();
+  let processed = migration.processed;
+
+  try {
+    const embedding = getEmbeddingProvider(target);
+
+    while (Date.now() - startedAt < REEMBEDDING_CONFIG.timeBudgetMs) {
+      // 1. Siguiente batch de chunks sin vector nuevo
+      const { data, error } = await selectPendingChunks(embedding, "id, document_id, content, context_header")
+        .order("id", { ascending: true })
+        .limit(REEMBEDDING_CONFIG.batchSize);
+
+      if (error) {
+        throw new Error(`Error al leer chunks pendientes: ${error.message}`);
+      }
+
+      const chunks = (data as unknown as Pick<DocumentChunk, "id" | "document_id" | "content" | "context_header">[]) || [];
+
+      if (chunks.length === 0) {
+        // 2. Todo vectorizado: las queries y las subidas siguen usando el modelo del entorno;
+        //    promover antes de cambiarlo dejaría la búsqueda sin vectores comparables
+        const active = getEmbeddingProvider();
+        if (active.model !== embedding.model || active.dimensions !== embedding.dimensions) {
+          await updateReembedding(migrationId, { status: "ready", processed });
+          return getReembedding(migrationId);
+        }
+
+        const promoted = await supabaseAdmin.rpc("promote_chunk_embeddings", {
+          target_model: embedding.model,
+          target_dimensions: embedding.dimensions
+        });
+
+        if (promoted.error) {
+          throw new Error(`Error al activar los vectores nuevos: ${promoted.error.message}`);
+        }
+
+        // Chunks subidos durante la corrida con el modelo anterior: se siguen procesando
+        const remaining = await selectPendingChunks(embedding, "id", { count: "exact", head: true });
+        if (remaining.error) {
+          throw new Error(`Error al contar chunks pendientes: ${remaining.error.message}`);
+        }
+        if (!remaining.count) {
+          await updateReembedding(migrationId, { status: "done", processed });
+          return getReembedding(migrationId);
+        }
+        continue;
+      }
+
+      // Mismo texto desidentificado que en la ingesta (placeholders y encabezado de contexto del documento)
+      const texts: string[] = [];
+      for (const chunk of chunks) {
+        if (!mappings.has(chunk.document_id)) {
+          mappings.set(chunk.document_id, await getPHIMapping(chunk.document_id));
+        }
+        texts.push(redactText(withContextHeader(chunk.context_header, chunk.content), mappings.get(chunk.document_id)).text);
+      }
+
+      const { embeddings } = await embedBatch(texts, target);
+
+      const staged = await supabaseAdmin.rpc("stage_chunk_embeddings", {
+        updates: chunks.map((chunk, index) => ({ id: chunk.id, embedding: embeddings[index].embedding })),
+        target_model: embedding.model,
+        target_dimensions: embedding.dimensions
+      });
+
+      if (staged.error) {
+        throw new Error(`Error al guardar los vectores nuevos: ${staged.error.message}`);
+      }
+
+      processed += chunks.length;
+      await updateReembedding(migrationId, { processed });
+    }
+  } catch (error) {
+    console.error("Error running re-embedding:", error);
+    await updateReembedding(migrationId, {
+      status: "failed",
+      processed,
+      error: error instanceof Error ? error.message : "Error desconocido"
+    });
+  }
+
+  return getReembedding(migrationId);
+}
+
+/**
+ * Obtiene una re-vectorización por su ID
+ *
+ * @param migrationId - ID de la corrida
+ * @returns Corrida o null si no existe
+ */
+export async function getReembedding(migrationId: string): Promise<EmbeddingMigration | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("embedding_migrations")
+      .select("*")
+      .eq("id", migrationId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error getting embedding migration:", error);
+      return null;
+    }
+
+    return data as EmbeddingMigration | null;
+  } catch (error) {
+    console.error("Error in getReembedding:", error);
+    return null;
+  }
+}
+
+/**
+ * Obtiene la re-vectorización más reciente (en curso o terminada)
+ *
+ * @returns Corrida o null si nunca se ejecutó una
+ */
+export async function getLatestReembedding(): Promise<EmbeddingMigration | null> {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("embedding_migrations")
+      .select("*")
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error getting latest embedding migration:", error);
+      return null;
+    }
+
+    return data as EmbeddingMigration | null;
+  } catch (error) {
+    console.error("Error in getLatestReembedding:", error);
+    return null;
+  }
+}
+
+// ============================================
+// Funciones auxiliares
+// ============================================
+
+/**
+ * Chunks que todavía no tienen un vector del destino (ni actual ni nuevo)
+ */
+function selectPendingChunks(
+  embedding: ResolvedEmbeddingProvider,
+  columns: string,
+  options?: { count: "exact"; head: boolean }
+) {
+  const model = `"${embedding.model}"`;
+
+  return supabaseAdmin
+    .from("document_chunks")
+    .select(columns, options)
+    .or(`embedding_model.is.null,embedding_model.neq.${model},embedding_dimensions.neq.${embedding.dimensions}`)
+    .or(`embedding_next_model.is.null,embedding_next_model.neq.${model},embedding_next_dimensions.neq.${embedding.dimensions}`);
+}
+
+/**
+ * Actualiza el avance de una corrida
+ * Un error al informar el avance no interrumpe la re-vectorización
+ */
+async function updateReembedding(
+  migrationId: string,
+  changes: Partial<Pick<EmbeddingMigration, "status" | "processed" | "error">>
+): Promise<void> {
+  try {
+    const { error } = await supabaseAdmin
+      .from("embedding_migrations")
+      .update({ ...changes, updated_at: new Date().toISOString() })
+      .eq("id", migrationId);
+
+    if (error) {
+      console.error("Error updating embedding migration:", error);
+    }
+  } catch (error) {
+    console.error("Error in updateReembedding:", error);
+  }
+}
@@ -0,0 +1,213 @@
+import { GoogleGenAI } from "@google/genai";
+import type { PreTrainedModel, PreTrainedTokenizer } from "@huggingface/transformers";
+import { redactText, getPHIMapping, PHIMapping } from "./phi-redaction";
+import type { RetrievedChunk } from "./retrieval";
+
+// ============================================
+// Configuración
+// ============================================
+
+// Reranker por defecto: RERANKER (cross-encoder | llm | none)
+const RERANKING_CONFIG = {
+  crossEncoderModel: "Xenova/bge-reranker-base",   // XLM-RoBERTa: multilingüe, corre en CPU con ONNX
+  crossEncoderBatchSize: 8,   // Pares (consulta, fragmento) por inferencia
+  llmModel: "gemini-2.0-flash",
+  llmMaxChunkChars: 1500      // Largo máximo de cada fragmento en el prompt del LLM
+} as const;
+
+// ============================================
+// Interfaces
+// ============================================
+
+export type RerankerName = "cross-encoder" | "llm" | "none";
+
+interface Reranker {
+  description: string;
+  external: boolean;          // Envía el texto fuera del servidor (se desidentifica antes)
+  score: ((query: string, texts: string[]) => Promise<number[]>) | null;   // null: conserva el orden
+}
+
+// ============================================
+// Registro de rerankers
+// ============================================
+
+const RERANKERS: Record<RerankerName, Reranker> = {
+  "cross-encoder": {
+    description: "Cross-encoder ONNX local con transformers.js: puntúa cada par (consulta, fragmento)",
+    external: false,
+    score: scoreWithCrossEncoder
+  },
+  llm: {
+    description: "Gemini puntúa la relevancia de cada fragmento para la consulta",
+    external: true,
+    score: scoreWithLLM
+  },
+  none: {
+    description: "Sin reranking: conserva el orden de la búsqueda",
+    external: false,
+    score: null
+  }
+};
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Reordena los candidatos de la búsqueda por relevancia para la consulta y se queda con los topK
+ * Cada chunk conserva su puntaje de búsqueda y agrega rerankScore (0 a 1)
+ * Si el reranker falla se devuelve el orden original: el reranking nunca interrumpe el chat
+ *
+ * @param query - Consulta del usuario
+ * @param chunks - Candidatos ordenados por la búsqueda
+ * @param topK - Cantidad de chunks a devolver
+ * @param options - Reranker (default: RERANKER) y mapping PHI de los chunks (o su documento, para leerlo)
+ * @returns Los topK chunks más relevantes
+ */
+export async function rerankChunks(
+  query: string,
+  chunks: RetrievedChunk[],
+  topK: number,
+  options: { reranker?: RerankerName; documentId?: string; phiMapping?: PHIMapping } = {}
+): Promise<RetrievedChunk[]> {
+  const reranker = RERANKERS[options.reranker ?? getDefaultReranker()];
+
+  if (!reranker.score || chunks.length === 0) {
+    return chunks.slice(0, topK);
+  }
+
+  try {
+    // Los rerankers externos reciben el texto desidentificado, igual que los embeddings
+    const phiMapping = !reranker.external
+      ? {}
+      : options.phiMapping ?? (options.documentId ? await getPHIMapping(options.documentId) : {});
+    const redact = (text: string) => reranker.external ? redactText(text, phiMapping).text : text;
+
+    const scores = await reranker.score(redact(query), chunks.map(chunk => redact(chunk.content)));
+
+    if (scores.length !== chunks.length) {
+      throw new Error(`El reranker devolvió ${scores.length} puntajes para ${chunks.length} fragmentos`);
+    }
+
+    return chunks
+      .map((chunk, index) => ({ ...chunk, rerankScore: scores[index] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, topK);
+  } catch (error) {
+    console.error("Error reranking chunks:", error);
+    return chunks.slice(0, topK);
+  }
+}
+
+/**
+ * Indica si el reranker usa un modelo (si no, no hace falta buscar candidatos extra)
+ *
+ * @param rerankerName - Reranker (default: RERANKER)
+ */
+export function isRerankingEnabled(rerankerName: RerankerName = getDefaultReranker()): boolean {
+  return RERANKERS[rerankerName].score !== null;
+}
+
+/**
+ * Verifica si un string es un reranker válido
+ */
+export function isReranker(name: string): name is RerankerName {
+  return Object.prototype.hasOwnProperty.call(RERANKERS, name);
+}
+
+// ============================================
+// Rerankers
+// ============================================
+
+// Tokenizer y modelo se descargan y cargan una sola vez por proceso
+// Si la carga falla se descarta la promesa: el próximo request vuelve a intentar
+let crossEncoder: Promise<{ tokenizer: PreTrainedTokenizer; model: PreTrainedModel }> | null = null;
+
+/**
+ * Cross-encoder local (transformers.js + ONNX Runtime en CPU)
+ * El logit de cada par pasa por una sigmoide para quedar entre 0 y 1
+ */
+async function scoreWithCrossEncoder(query: string, texts: string[]): Promise<number[]> {
+  crossEncoder ??= import("@huggingface/transformers").then(
+    async ({ AutoTokenizer, AutoModelForSequenceClassification }) => ({
+      tokenizer: await AutoTokenizer.from_pretrained(RERANKING_CONFIG.crossEncoderModel),
+      model: await AutoModelForSequenceClassification.from_pretrained(RERANKING_CONFIG.crossEncoderModel, { dtype: "q8" })
+    })
+  ).catch(error => {
+    crossEncoder = null;
+    throw error;
+  });
+  const { tokenizer, model } = await crossEncoder;
+
+  const scores: number[] = [];
+
+  for (let i = 0; i < texts.length; i += RERANKING_CONFIG.crossEncoderBatchSize) {
+    const batch = texts.slice(i, i + RERANKING_CONFIG.crossEncoderBatchSize);
+    const inputs = tokenizer(new Array(batch.length).fill(query), {
+      text_pair: batch,
+      padding: true,
+      truncation: true
+    });
+
+    const { logits } = await model(inputs);
+    scores.push(...(logits.tolist() as number[][]).map(([logit]) => 1 / (1 + Math.exp(-logit))));
+  }
+
+  return scores;
+}
+
+// Se crea al primer uso: sin GEMINI_API_KEY se pueden usar los otros rerankers
+let geminiClient: GoogleGenAI | null = null;
+
+/**
+ * LLM: un solo request con todos los fragmentos, puntuados de 0 a 10
+ */
+async function scoreWithLLM(query: string, texts: string[]): Promise<number[]> {
+  geminiClient ??= new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY! });
+
+  const fragments = texts
+    .map((text, index) => `[${index}]\n${text.slice(0, RERANKING_CONFIG.llmMaxChunkChars)}`)
+    .join("\n\n");
+
+  const prompt = `Puntúa de 0 a 10 cuánto ayuda cada fragmento de un documento médico a responder la consulta.
+10: responde la consulta directamente. 0: no tiene relación.
+
+Responde solo con JSON: {"scores": [<puntaje del fragmento 0>, <puntaje del fragmento 1>, ...]}
+
+Consulta: ${query}
+
+Fragmentos:
+${fragments}`;
+
+  const response = await geminiClient.models.generateContent({
+    model: RERANKING_CONFIG.llmModel,
+    contents: prompt,
+    config: { temperature: 0, responseMimeType: "application/json" }
+  });
+
+  const parsed = JSON.parse(response.text ?? "{}") as { scores?: unknown };
+
+  if (!Array.isArray(parsed.scores) || !parsed.scores.every(score => typeof score === "number")) {
+    throw new Error("El LLM no devolvió una lista de puntajes");
+  }
+
+  return (parsed.scores as number[]).map(score => Math.min(Math.max(score / 10, 0), 1));
+}
+
+// ============================================
+// Funciones auxiliares
+// ============================================
+
+/**
+ * Reranker configurado para el entorno
+ */
+function getDefaultReranker(): RerankerName {
+  const configured = process.env.RERANKER;
+  return configured && isReranker(configured) ? configured : "none";
+}
+
+// ============================================
+// Configuración exportada
+// ============================================
+
+export const RERANKER_NAMES = Object.keys(RERANKERS) as RerankerName[];
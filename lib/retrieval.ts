@@ -1,5 +1,16 @@
-import { supabaseAdmin, MatchDocumentsParams, MatchDocumentsResult } from "./supabase";
-import { embedQuery } from "./embeddings";
+import {
+  supabaseAdmin,
+  MatchDocumentsParams,
+  MatchDocumentsResult,
+  MatchChunksKeywordParams,
+  MatchChunksKeywordResult
+} from "./supabase";
+import { embedQuery, cosineSimilarity, getEmbeddingProvider, ResolvedEmbeddingProvider } from "./embeddings";
+import { redactText, removePlaceholders, getPHIMapping, PHIMapping } from "./phi-redaction";
+import { rerankChunks, isRerankingEnabled, RerankerName } from "./reranking";
+import type { ChunkMetadata } from "./pdf-processing";
+import type { DocumentType } from "./document-classification";
+import type { BoundingBox } from "./text-layout";
 
 // ============================================
 // Interfaces
@@ -8,16 +19,29 @@ import { embedQuery } from "./embeddings";
 export interface RetrievalConfig {
   topK: number;           // Número de chunks a retornar (5-10 recomendado)
   threshold: number;      // Similitud mínima (0.0 - 1.0, recomendado 0.7)
+  documentType?: DocumentType;  // Solo chunks de este tipo documental (opcional)
+  semanticWeight: number; // Peso de la búsqueda semántica en la fusión (hybridSearch)
+  keywordWeight: number;  // Peso de la búsqueda por palabras clave en la fusión (hybridSearch)
+  rrfK: number;           // Constante de RRF: cuanto mayor, menos ventaja tienen los primeros puestos
+  reranker?: RerankerName;  // Reranker de hybridSearch (default: RERANKER)
+  rerankCandidates: number; // Candidatos que se reordenan o diversifican antes de quedarse con topK
+  mmrLambda: number;        // MMR: 1 = solo relevancia, 0 = solo diversidad (chunks superpuestos)
 }
 
 export interface RetrievedChunk {
   id: string;
   content: string;
-  similarity: number;
-  metadata: {
-    documentType: string;
-    processedAt: string;
-  } | null;
+  similarity: number;             // Similitud coseno (0 si solo coincidió por palabras clave)
+  keywordScore?: number;          // ts_rank_cd de la búsqueda por palabras clave
+  fusionScore?: number;           // Puntaje RRF de hybridSearch
+  rerankScore?: number;           // Relevancia según el reranker (0 a 1), si se reordenó
+  pageNumber: number | null;
+  endPageNumber: number | null;
+  tokenCount: number | null;
+  charStart: number | null;       // Offsets en el texto extraído del documento
+  charEnd: number | null;
+  boundingBoxes: BoundingBox[];   // Rectángulos para resaltar el pasaje en la página
+  metadata: ChunkMetadata | null;
 }
 
 // ============================================
@@ -26,7 +50,12 @@ export interface RetrievedChunk {
 
 const DEFAULT_RETRIEVAL_CONFIG: RetrievalConfig = {
   topK: 5,
-  threshold: 0.7
+  threshold: 0.7,
+  semanticWeight: 1,
+  keywordWeight: 1,
+  rrfK: 60,
+  rerankCandidates: 20,
+  mmrLambda: 0.7
 };
 
 // ============================================
@@ -45,17 +74,21 @@ export async function semanticSearch(
   query: string,
   config: Partial<RetrievalConfig> = {}
 ): Promise<RetrievedChunk[]> {
-  const { topK, threshold } = { ...DEFAULT_RETRIEVAL_CONFIG, ...config };
+  const { topK, threshold, documentType } = { ...DEFAULT_RETRIEVAL_CONFIG, ...config };
   
-  // 1. Vectorizar la query
-  const queryEmbedding = await embedQuery(query);
+  // 1. Vectorizar la query desidentificada
+  const embedding = getEmbeddingProvider();
+  const queryEmbedding = await embedQuery(redactText(query).text, embedding);
   
   // 2. Buscar chunks similares usando la función RPC
+  // Solo se comparan vectores del mismo modelo y dimensión que la query
   const params: MatchDocumentsParams = {
     query_embedding: queryEmbedding,
+    filter_embedding_model: embedding.model,
     match_threshold: threshold,
     match_count: topK,
-    filter_document_id: null
+    filter_document_id: null,
+    filter_document_type: documentType ?? null
   };
   
   const { data, error } = await supabaseAdmin.rpc("match_documents", params);
@@ -70,6 +103,12 @@ export async function semanticSearch(
     id: result.id,
     content: result.content,
     similarity: result.similarity,
+    pageNumber: result.page_number,
+    endPageNumber: result.end_page_number,
+    tokenCount: result.token_count,
+    charStart: result.char_start,
+    charEnd: result.char_end,
+    boundingBoxes: result.bounding_boxes ?? [],
     metadata: result.metadata
   }));
 }
@@ -81,24 +120,31 @@ export async function semanticSearch(
  * @param query - Consulta del usuario
  * @param documentId - ID del documento donde buscar
  * @param config - Configuración de búsqueda opcional
+ * @param phiMapping - Mapping PHI del documento (si no se pasa, se lee)
  * @returns Array de chunks relevantes del documento
  */
 export async function searchDocumentChunks(
   query: string,
   documentId: string,
-  config: Partial<RetrievalConfig> = {}
+  config: Partial<RetrievalConfig> = {},
+  phiMapping?: PHIMapping
 ): Promise<RetrievedChunk[]> {
-  const { topK, threshold } = { ...DEFAULT_RETRIEVAL_CONFIG, ...config };
+  const { topK, threshold, documentType, rerankCandidates, mmrLambda } = { ...DEFAULT_RETRIEVAL_CONFIG, ...config };
+  const diversify = mmrLambda < 1;
   
-  // 1. Vectorizar la query
-  const queryEmbedding = await embedQuery(query);
+  // 1. Vectorizar la query desidentificada con los placeholders del documento
+  phiMapping ??= await getPHIMapping(documentId);
+  const embedding = getEmbeddingProvider();
+  const queryEmbedding = await embedQuery(redactText(query, phiMapping).text, embedding);
   
   // 2. Buscar chunks similares en el documento específico
   const params: MatchDocumentsParams = {
     query_embedding: queryEmbedding,
+    filter_embedding_model: embedding.model,
     match_threshold: threshold,
-    match_count: topK,
-    filter_document_id: documentId
+    match_count: diversify ? Math.max(topK, rerankCandidates) : topK,
+    filter_document_id: documentId,
+    filter_document_type: documentType ?? null
   };
   
   const { data, error } = await supabaseAdmin.rpc("match_documents", params);
@@ -108,14 +154,120 @@ export async function searchDocumentChunks(
     throw new Error(`Error buscando en documento: ${error.message}`);
   }
   
-  return (data as MatchDocumentsResult[] || []).map(result => ({
+  // 3. Sin resultados: verificar que el documento no esté vectorizado con otro modelo
+  if (!data || data.length === 0) {
+    await assertDocumentEmbeddingsMatch(documentId, embedding);
+  }
+  
+  const results = (data as MatchDocumentsResult[] || []).map(result => ({
     id: result.id,
     content: result.content,
     similarity: result.similarity,
+    pageNumber: result.page_number,
+    endPageNumber: result.end_page_number,
+    tokenCount: result.token_count,
+    charStart: result.char_start,
+    charEnd: result.char_end,
+    boundingBoxes: result.bounding_boxes ?? [],
+    metadata: result.metadata
+  }));
+  
+  // 4. Evitar chunks casi idénticos (superpuestos) entre los resultados
+  return diversify
+    ? diversifyWithMMR(results, queryEmbedding, topK, mmrLambda)
+    : results;
+}
+
+/**
+ * Búsqueda por palabras clave (full-text de Postgres, configuración spanish) en un documento
+ * Encuentra términos exactos que los embeddings suelen pasar por alto:
+ * nombres de fármacos, códigos de laboratorio, siglas ("HbA1c")
+ * 
+ * @param query - Consulta del usuario
+ * @param documentId - ID del documento donde buscar
+ * @param config - Configuración de búsqueda opcional (no usa threshold)
+ * @param phiMapping - Mapping PHI del documento (si no se pasa, se lee)
+ * @returns Chunks que contienen algún término de la consulta, por relevancia
+ */
+export async function keywordSearchChunks(
+  query: string,
+  documentId: string,
+  config: Partial<RetrievalConfig> = {},
+  phiMapping?: PHIMapping
+): Promise<RetrievedChunk[]> {
+  const { topK, documentType } = { ...DEFAULT_RETRIEVAL_CONFIG, ...config };
+  
+  // Misma query desidentificada que la búsqueda semántica y el reranker:
+  // los datos identificatorios no se usan como términos de búsqueda
+  phiMapping ??= await getPHIMapping(documentId);
+  const queryText = removePlaceholders(redactText(query, phiMapping).text);
+  
+  if (!queryText) {
+    return [];
+  }
+  
+  const params: MatchChunksKeywordParams = {
+    query_text: queryText,
+    match_count: topK,
+    filter_document_id: documentId,
+    filter_document_type: documentType ?? null
+  };
+  
+  const { data, error } = await supabaseAdmin.rpc("match_chunks_keyword", params);
+  
+  if (error) {
+    console.error("Error in keyword search:", error);
+    throw new Error(`Error en búsqueda por palabras clave: ${error.message}`);
+  }
+  
+  return (data as MatchChunksKeywordResult[] || []).map(result => ({
+    id: result.id,
+    content: result.content,
+    similarity: 0,
+    keywordScore: result.rank,
+    pageNumber: result.page_number,
+    endPageNumber: result.end_page_number,
+    tokenCount: result.token_count,
+    charStart: result.char_start,
+    charEnd: result.char_end,
+    boundingBoxes: result.bounding_boxes ?? [],
     metadata: result.metadata
   }));
 }
 
+/**
+ * Lanza un error si el documento tiene chunks sin vector del modelo y dimensión de la query
+ * Un chunk re-vectorizado todavía no promovido se busca por su vector nuevo (ver reembedding)
+ * 
+ * @param documentId - ID del documento
+ * @param embedding - Modelo y dimensión de la query
+ */
+async function assertDocumentEmbeddingsMatch(
+  documentId: string,
+  embedding: ResolvedEmbeddingProvider
+): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from("document_chunks")
+    .select("embedding_model, embedding_dimensions")
+    .eq("document_id", documentId)
+    .or(`embedding_model.neq."${embedding.model}",embedding_dimensions.neq.${embedding.dimensions}`)
+    .or(`embedding_next_model.is.null,embedding_next_model.neq."${embedding.model}",embedding_next_dimensions.neq.${embedding.dimensions}`)
+    .limit(1);
+  
+  if (error) {
+    console.error("Error checking chunk embedding models:", error);
+    return;
+  }
+  
+  const mismatch = data?.[0];
+  if (mismatch) {
+    throw new Error(
+      `El documento está vectorizado con ${mismatch.embedding_model} (${mismatch.embedding_dimensions} dimensiones) ` +
+      `y la búsqueda usa ${embedding.model} (${embedding.dimensions}); hay que re-vectorizarlo`
+    );
+  }
+}
+
 /**
  * Formatea los chunks recuperados como contexto para el LLM
  * 
@@ -132,40 +284,265 @@ export function formatChunksAsContext(
   }
   
   return chunks
-    .map((chunk, index) => 
-      `[Fragmento ${index + 1} - Similitud: ${(chunk.similarity * 100).toFixed(1)}%]\n${chunk.content}`
-    )
+    .map((chunk, index) => {
+      const location = formatChunkLocation(chunk);
+      const label = location ? ` - ${location}` : "";
+      const score = chunk.similarity > 0
+        ? `Similitud: ${(chunk.similarity * 100).toFixed(1)}%`
+        : "Coincidencia por palabras clave";
+      return `[Fragmento ${index + 1}${label} - ${score}]\n${chunk.content}`;
+    })
     .join(separator);
 }
 
+/**
+ * Describe la ubicación de un chunk en el documento
+ * Ejemplo: "Evolución, p. 12" o "pp. 3-4"
+ * 
+ * @param chunk - Chunk recuperado
+ * @returns Sección y páginas, o string vacío si no hay datos
+ */
+export function formatChunkLocation(chunk: RetrievedChunk): string {
+  const parts: string[] = [];
+  
+  if (chunk.metadata?.section) {
+    parts.push(chunk.metadata.section);
+  }
+  
+  if (chunk.pageNumber) {
+    const endPage = chunk.endPageNumber ?? chunk.pageNumber;
+    parts.push(
+      endPage > chunk.pageNumber
+        ? `pp. ${chunk.pageNumber}-${endPage}`
+        : `p. ${chunk.pageNumber}`
+    );
+  }
+  
+  return parts.join(", ");
+}
+
 /**
  * Búsqueda híbrida: combina semántica + keywords
- * Realiza búsqueda semántica y filtra por palabras clave si es necesario
+ * Busca en paralelo por embeddings y por texto completo y fusiona ambos rankings
+ * con Reciprocal Rank Fusion: score = Σ peso / (rrfK + posición)
+ * Con un reranker activo, reordena los mejores rerankCandidates; con mmrLambda < 1 elige
+ * los topK entre ellos evitando chunks superpuestos (MMR)
  * 
  * @param query - Consulta del usuario
  * @param documentId - ID del documento donde buscar
- * @param config - Configuración de búsqueda
- * @returns Array de chunks relevantes
+ * @param config - Configuración de búsqueda (pesos y rrfK de la fusión, reranker)
+ * @param phiMapping - Mapping PHI del documento (si no se pasa, se lee una vez para todas las etapas)
+ * @returns Array de chunks relevantes ordenados por puntaje fusionado o del reranker
  */
 export async function hybridSearch(
   query: string,
   documentId: string,
-  config: Partial<RetrievalConfig> = {}
+  config: Partial<RetrievalConfig> = {},
+  phiMapping?: PHIMapping
+): Promise<RetrievedChunk[]> {
+  const {
+    topK,
+    semanticWeight,
+    keywordWeight,
+    rrfK,
+    reranker,
+    rerankCandidates,
+    mmrLambda,
+    ...searchConfig
+  } = { ...DEFAULT_RETRIEVAL_CONFIG, ...config };
+  const rerank = isRerankingEnabled(reranker);
+  const diversify = mmrLambda < 1;
+  const candidateCount = rerank || diversify ? Math.max(topK, rerankCandidates) : topK;
+  const mapping = phiMapping ?? await getPHIMapping(documentId);
+  
+  // 1. Ambas búsquedas con más candidatos que los pedidos (buscar más para fusionar)
+  // MMR se aplica una sola vez, sobre la lista fusionada
+  const candidateConfig = { ...searchConfig, topK: candidateCount * 2, mmrLambda: 1 };
+  const [semanticResults, keywordResults] = await Promise.all([
+    semanticWeight > 0 ? searchDocumentChunks(query, documentId, candidateConfig, mapping) : [],
+    keywordWeight > 0 ? keywordSearchChunks(query, documentId, candidateConfig, mapping) : []
+  ]);
+  
+  // 2. Reciprocal Rank Fusion de ambos rankings
+  const candidates = fuseRankings([
+    { results: semanticResults, weight: semanticWeight },
+    { results: keywordResults, weight: keywordWeight }
+  ], rrfK).slice(0, candidateCount);
+  
+  // 3. Reranking de los candidatos (sin reranker queda el orden de la fusión)
+  const ranked = rerank
+    ? await rerankChunks(query, candidates, diversify ? candidates.length : topK, { reranker, phiMapping: mapping })
+    : candidates;
+  
+  if (!diversify) {
+    return ranked.slice(0, topK);
+  }
+  
+  // 4. Diversificar: la query ya está en el cache de embeddings (la vectorizó la búsqueda semántica)
+  const queryEmbedding = await embedQuery(redactText(query, mapping).text, getEmbeddingProvider());
+  
+  return diversifyWithMMR(ranked, queryEmbedding, topK, mmrLambda);
+}
+
+/**
+ * Búsqueda híbrida con varias formulaciones de la misma consulta (ver query-rewriting)
+ * Busca con cada una y fusiona los resultados con RRF: los chunks que aparecen
+ * en varias búsquedas suben
+ * 
+ * @param queries - Consulta principal seguida de sus variantes
+ * @param documentId - ID del documento donde buscar
+ * @param config - Configuración de búsqueda (se aplica a cada consulta)
+ * @param phiMapping - Mapping PHI del documento (si no se pasa, se lee una vez para todas las consultas)
+ * @returns Array de chunks relevantes ordenados por puntaje fusionado
+ */
+export async function multiQuerySearch(
+  queries: string[],
+  documentId: string,
+  config: Partial<RetrievalConfig> = {},
+  phiMapping?: PHIMapping
+): Promise<RetrievedChunk[]> {
+  const mapping = phiMapping ?? await getPHIMapping(documentId);
+  
+  if (queries.length <= 1) {
+    return hybridSearch(queries[0] ?? "", documentId, config, mapping);
+  }
+  
+  const { topK, rrfK } = { ...DEFAULT_RETRIEVAL_CONFIG, ...config };
+  const rankings = await Promise.all(queries.map(query => hybridSearch(query, documentId, config, mapping)));
+  
+  return fuseRankings(rankings.map(results => ({ results, weight: 1 })), rrfK).slice(0, topK);
+}
+
+/**
+ * Reciprocal Rank Fusion: un chunk suma peso / (rrfK + posición) por cada ranking donde aparece
+ * Conserva el mejor puntaje de búsqueda y de reranking de cada chunk
+ */
+function fuseRankings(
+  rankings: { results: RetrievedChunk[]; weight: number }[],
+  rrfK: number
+): RetrievedChunk[] {
+  const fused = new Map<string, RetrievedChunk>();
+  
+  for (const { results, weight } of rankings) {
+    results.forEach((chunk, index) => {
+      const contribution = weight / (rrfK + index + 1);
+      const existing = fused.get(chunk.id);
+      
+      fused.set(chunk.id, existing
+        ? {
+          ...existing,
+          similarity: Math.max(existing.similarity, chunk.similarity),
+          keywordScore: maxDefined(existing.keywordScore, chunk.keywordScore),
+          rerankScore: maxDefined(existing.rerankScore, chunk.rerankScore),
+          fusionScore: (existing.fusionScore ?? 0) + contribution
+        }
+        : { ...chunk, fusionScore: contribution });
+    });
+  }
+  
+  return [...fused.values()].sort((a, b) => (b.fusionScore ?? 0) - (a.fusionScore ?? 0));
+}
+
+function maxDefined(a: number | undefined, b: number | undefined): number | undefined {
+  return a === undefined ? b : b === undefined ? a : Math.max(a, b);
+}
+
+// ============================================
+// Diversidad (Maximal Marginal Relevance)
+// ============================================
+
+/**
+ * Elige topK chunks equilibrando relevancia y diversidad (MMR)
+ * En cada paso toma el que maximiza λ · relevancia - (1 - λ) · máxima similitud con los ya elegidos,
+ * comparando los embeddings guardados de los chunks
+ * Relevancia: puntaje del reranker si lo hay; si no, similitud coseno con la query
+ * 
+ * @param chunks - Candidatos ordenados por relevancia
+ * @param queryEmbedding - Vector de la query
+ * @param topK - Cantidad de chunks a devolver
+ * @param lambda - 1 = solo relevancia, 0 = solo diversidad
+ * @returns Chunks elegidos, en el orden de selección
+ */
+async function diversifyWithMMR(
+  chunks: RetrievedChunk[],
+  queryEmbedding: number[],
+  topK: number,
+  lambda: number
 ): Promise<RetrievedChunk[]> {
-  // Por ahora, la búsqueda híbrida usa principalmente la semántica
-  // ya que pgvector no tiene full-text search integrado
-  // La "hibridez" viene del threshold que filtra resultados no relevantes
-  
-  const results = await searchDocumentChunks(query, documentId, {
-    topK: (config.topK || DEFAULT_RETRIEVAL_CONFIG.topK) * 2, // Buscar más para filtrar
-    threshold: config.threshold || 0.5 // Threshold más bajo para obtener más candidatos
-  });
-  
-  // Filtrar y tomar los mejores resultados
-  const finalThreshold = config.threshold || DEFAULT_RETRIEVAL_CONFIG.threshold;
-  const finalTopK = config.topK || DEFAULT_RETRIEVAL_CONFIG.topK;
-  
-  return results
-    .filter(chunk => chunk.similarity >= finalThreshold)
-    .slice(0, finalTopK);
+  if (chunks.length <= 1) {
+    return chunks.slice(0, topK);
+  }
+  
+  const embeddings = await getChunkEmbeddings(chunks.map(chunk => chunk.id));
+  
+  // Vectores de otra dimensión (chunks encontrados solo por palabras clave) no se comparan
+  const similarity = (a: number[] | undefined, b: number[] | undefined) =>
+    a && b && a.length === b.length ? cosineSimilarity(a, b) : 0;
+  
+  const relevance = new Map(chunks.map(chunk => [
+    chunk.id,
+    chunk.rerankScore ?? similarity(queryEmbedding, embeddings.get(chunk.id))
+  ]));
+  
+  const selected: RetrievedChunk[] = [];
+  const remaining = [...chunks];
+  
+  while (selected.length < topK && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    
+    remaining.forEach((chunk, index) => {
+      const redundancy = Math.max(0, ...selected.map(other =>
+        similarity(embeddings.get(chunk.id), embeddings.get(other.id))
+      ));
+      const score = lambda * relevance.get(chunk.id)! - (1 - lambda) * redundancy;
+      
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+    
+    selected.push(...remaining.splice(bestIndex, 1));
+  }
+  
+  return selected;
+}
+
+/**
+ * Embeddings guardados de los chunks, del mismo modelo que la query
+ * Durante una re-vectorización puede ser el vector nuevo todavía no promovido
+ * Si no se pueden leer, MMR solo ordena por relevancia
+ */
+async function getChunkEmbeddings(chunkIds: string[]): Promise<Map<string, number[]>> {
+  const embedding = getEmbeddingProvider();
+  const { data, error } = await supabaseAdmin
+    .from("document_chunks")
+    .select("id, embedding, embedding_model, embedding_next, embedding_next_model")
+    .in("id", chunkIds);
+  
+  if (error) {
+    console.error("Error getting chunk embeddings:", error);
+    return new Map();
+  }
+  
+  type StoredVector = number[] | string | null;
+  const rows = (data as {
+    id: string;
+    embedding: StoredVector;
+    embedding_model: string | null;
+    embedding_next: StoredVector;
+    embedding_next_model: string | null;
+  }[]) || [];
+  
+  // pgvector llega como texto ("[0.1,0.2,...]") a través de PostgREST
+  return new Map(rows
+    .map(row => [
+      row.id,
+      row.embedding_model !== embedding.model && row.embedding_next_model === embedding.model
+        ? row.embedding_next
+        : row.embedding
+    ] as const)
+    .filter((entry): entry is readonly [string, number[] | string] => entry[1] !== null)
+    .map(([id, vector]) => [id, typeof vector === "string" ? JSON.parse(vector) as number[] : vector]));
 }
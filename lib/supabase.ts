@@ -1,4 +1,14 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import type { ChunkMetadata } from "./pdf-processing";
+import type { ChunkingConfig } from "./chunking";
+import type { DocumentBoilerplate } from "./boilerplate";
+import type { PHIMapping } from "./phi-redaction";
+import type { DocumentClassification } from "./document-classification";
+import type { BoundingBox } from "./text-layout";
+import type { LabFlag } from "./lab-results";
+import type { ClinicalEntityType, ClinicalEntityAttributes } from "./clinical-entities";
+import type { IngestionStage, IngestionJobResult } from "./ingestion-jobs";
+import type { EmbeddingProviderName } from "./embeddings";
 
 // ============================================
 // Configuración
@@ -47,6 +57,9 @@ export interface MedicalDocument {
   filename: string;
   uploaded_at: string;
   user_id: string | null;
+  record_id: string;                    // Registro lógico: todas las versiones comparten este ID
+  version: number;                      // 1 para la primera versión del registro
+  previous_version_id: string | null;
   metadata: {
     title?: string;
     author?: string;
@@ -54,21 +67,110 @@ export interface MedicalDocument {
     totalPages?: number;
     totalChunks?: number;
     storagePath?: string;
+    chunking?: ChunkingConfig;
+    boilerplate?: DocumentBoilerplate;  // Membrete y pie de página eliminados de los chunks
+    classification?: DocumentClassification;
+    contentHash?: string;               // SHA-256 del archivo, para detectar subidas repetidas
+    contextualEmbeddings?: boolean;     // Chunks vectorizados con encabezado de contexto
   } | null;
 }
 
+// Usuario que subió un documento ya existente (subida repetida del mismo archivo)
+export interface DocumentUpload {
+  document_id: string;
+  user_id: string;
+  uploaded_at: string;
+}
+
 export interface DocumentChunk {
   id: string;
   document_id: string;
   content: string;
+  context_header: string | null;          // Encabezado antepuesto al contenido al vectorizar (ver contextual-embeddings)
   embedding: number[] | null;
+  embedding_model: string | null;         // Modelo que generó el vector
+  embedding_dimensions: number | null;
   page_number: number | null;
+  end_page_number: number | null;
   chunk_index: number | null;
-  metadata: {
-    documentType: string;
-    processedAt: string;
+  token_count: number | null;
+  char_start: number | null;
+  char_end: number | null;
+  bounding_boxes: BoundingBox[] | null;
+  metadata: ChunkMetadata | null;
+  created_at: string;
+}
+
+// Fila de una tabla de laboratorio extraída del documento
+export interface DocumentLabResult {
+  id: string;
+  document_id: string;
+  row_index: number;
+  page_number: number;
+  analyte: string;
+  value: string;
+  numeric_value: number | null;
+  unit: string | null;
+  reference_range: string | null;
+  flag: LabFlag | null;
+  sample_date: string | null;     // YYYY-MM-DD
+  created_at: string;
+}
+
+// Entidad clínica extraída de un chunk del documento
+export interface DocumentClinicalEntity {
+  id: string;
+  document_id: string;
+  entity_index: number;           // Orden de aparición en el documento
+  entity_type: ClinicalEntityType;
+  name: string;
+  attributes: ClinicalEntityAttributes;
+  chunk_index: number;
+  page_number: number;
+  created_at: string;
+}
+
+// Solo accesible con service role (sin políticas RLS)
+export interface DocumentPHIMapping {
+  document_id: string;
+  mapping: PHIMapping;
+  updated_at: string;
+}
+
+// Trabajo de ingesta en segundo plano (ver ingestion-jobs)
+export interface IngestionJob {
+  id: string;
+  user_id: string | null;
+  filename: string;
+  mime_type: string;
+  storage_path: string | null;
+  stage: IngestionStage;
+  progress: number;               // 0 a 100
+  options: {
+    chunking?: ChunkingConfig;
+    contentHash?: string;
+    previousVersionId?: string;
+    contextualEmbeddings?: boolean;
   } | null;
+  document_id: string | null;
+  result: IngestionJobResult | null;
+  error: string | null;
   created_at: string;
+  updated_at: string;
+}
+
+// Re-vectorización de todos los chunks a otro modelo o dimensión (ver reembedding)
+export interface EmbeddingMigration {
+  id: string;
+  provider: EmbeddingProviderName;
+  model: string;
+  dimensions: number;
+  status: "running" | "ready" | "done" | "failed";   // ready: vectorizado, falta activar el destino en el entorno
+  processed: number;
+  total: number;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
 }
 
 // ============================================
@@ -77,9 +179,11 @@ export interface DocumentChunk {
 
 export interface MatchDocumentsParams {
   query_embedding: number[];
+  filter_embedding_model: string;        // Solo chunks vectorizados con el mismo modelo y dimensión
   match_threshold?: number;
   match_count?: number;
   filter_document_id?: string | null;
+  filter_document_type?: string | null;  // Tipo documental del chunk (metadata.documentType)
 }
 
 export interface MatchDocumentsResult {
@@ -87,6 +191,23 @@ export interface MatchDocumentsResult {
   content: string;
   similarity: number;
   metadata: DocumentChunk["metadata"];
+  page_number: number | null;
+  end_page_number: number | null;
+  token_count: number | null;
+  char_start: number | null;
+  char_end: number | null;
+  bounding_boxes: BoundingBox[] | null;
+}
+
+export interface MatchChunksKeywordParams {
+  query_text: string;                    // Texto de la consulta (se analiza con la configuración spanish)
+  match_count?: number;
+  filter_document_id?: string | null;
+  filter_document_type?: string | null;
+}
+
+export interface MatchChunksKeywordResult extends Omit<MatchDocumentsResult, "similarity"> {
+  rank: number;                          // ts_rank_cd: mayor cuantos más términos coinciden y más cerca están
 }
 
 // ============================================
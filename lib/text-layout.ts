@@ -0,0 +1,305 @@
+import type { PageText } from "./document-loaders";
+
+// ============================================
+// Interfaces
+// ============================================
+
+// Rectángulo relativo a la página (0 a 1, origen arriba a la izquierda)
+export interface TextBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Fragmento de texto con su posición en la página
+export interface PageTextItem {
+  text: string;
+  box: TextBox;
+}
+
+export interface BoundingBox extends TextBox {
+  pageNumber: number;
+}
+
+export interface ChunkLocation {
+  charStart: number;              // Offset del primer carácter en el texto extraído
+  charEnd: number;                // Offset siguiente al último carácter (exclusivo)
+  boundingBoxes: BoundingBox[];   // Un rectángulo por línea (vacío si no hay posiciones)
+}
+
+// Separador entre páginas del texto extraído al que refieren los offsets
+export const PAGE_SEPARATOR = "\f";
+
+// Caracteres usados para anclar inicio y fin de un fragmento que no aparece completo
+const ANCHOR_LENGTH = 40;
+
+// ============================================
+// Funciones principales
+// ============================================
+
+/**
+ * Texto extraído del documento completo, al que refieren los offsets
+ * Páginas en orden separadas por PAGE_SEPARATOR
+ *
+ * @param pages - Páginas tal como las devolvió el loader
+ * @returns Texto del documento
+ */
+export function getDocumentText(pages: PageText[]): string {
+  return pages.map(page => page.text).join(PAGE_SEPARATOR);
+}
+
+/**
+ * Ubica cada chunk en el texto extraído y, si hay posiciones, en la página
+ * Los chunks se limpian (espacios, membretes), así que la búsqueda ignora
+ * los espacios y se hace línea por línea en orden de aparición
+ *
+ * @param chunks - Chunks en orden de aparición
+ * @param pages - Páginas tal como las devolvió el loader (antes de limpiar)
+ * @returns Ubicación de cada chunk, o null si no se pudo ubicar
+ */
+export function locateChunks(
+  chunks: { content: string }[],
+  pages: PageText[]
+): (ChunkLocation | null)[] {
+  const index = buildSkeleton(pages);
+  let cursor = 0;
+
+  return chunks.map(chunk => {
+    const ranges = findChunkRanges(chunk.content, index.skeleton, cursor);
+    if (ranges.length === 0) return null;
+
+    // Los chunks pueden superponerse: el siguiente se busca desde el inicio de este
+    cursor = ranges[0].start;
+
+    return {
+      charStart: index.offsets[ranges[0].start],
+      charEnd: index.offsets[ranges[ranges.length - 1].end - 1] + 1,
+      boundingBoxes: ranges.flatMap(range => getRangeBoxes(range, index))
+    };
+  });
+}
+
+/**
+ * Convierte un rectángulo en puntos o píxeles a coordenadas relativas a la página
+ */
+export function toRelativeBox(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  pageWidth: number,
+  pageHeight: number
+): TextBox {
+  return {
+    x: round(x / pageWidth),
+    y: round(y / pageHeight),
+    width: round(width / pageWidth),
+    height: round(height / pageHeight)
+  };
+}
+
+// ============================================
+// Funciones auxiliares
+// ============================================
+
+// Texto del documento sin espacios, con el offset original de cada carácter
+interface SkeletonIndex {
+  skeleton: string;
+  offsets: number[];
+  pages: PageSkeleton[];
+}
+
+interface PageSkeleton {
+  pageNumber: number;
+  start: number;          // Posición del primer carácter de la página en el esqueleto
+  end: number;
+  // Para cada carácter de la página: fragmento del layout y posición dentro del fragmento
+  items?: { item: PageTextItem; charIndex: number }[];
+}
+
+interface SkeletonRange {
+  start: number;
+  end: number;            // Exclusivo
+}
+
+/**
+ * Construye el esqueleto del documento (sin espacios) y, por página,
+ * la correspondencia de cada carácter con los fragmentos del layout
+ */
+function buildSkeleton(pages: PageText[]): SkeletonIndex {
+  const characters: string[] = [];
+  const offsets: number[] = [];
+  const pageSkeletons: PageSkeleton[] = [];
+  let documentOffset = 0;
+
+  pages.forEach((page, pageIndex) => {
+    if (pageIndex > 0) documentOffset += PAGE_SEPARATOR.length;
+
+    const start = characters.length;
+    for (let i = 0; i < page.text.length; i++) {
+      if (!/\s/.test(page.text[i])) {
+        characters.push(page.text[i]);
+        offsets.push(documentOffset + i);
+      }
+    }
+    documentOffset += page.text.length;
+
+    pageSkeletons.push({
+      pageNumber: page.pageNumber,
+      start,
+      end: characters.length,
+      items: mapLayoutCharacters(page, characters.length - start)
+    });
+  });
+
+  return { skeleton: characters.join(""), offsets, pages: pageSkeletons };
+}
+
+/**
+ * Asocia cada carácter (sin espacios) de la página con su fragmento del layout
+ * Si el layout no coincide con el texto de la página se descarta
+ */
+function mapLayoutCharacters(
+  page: PageText,
+  expectedLength: number
+): PageSkeleton["items"] {
+  if (!page.layout || page.layout.length === 0) return undefined;
+
+  const items: { item: PageTextItem; charIndex: number }[] = [];
+  for (const item of page.layout) {
+    for (let i = 0; i < item.text.length; i++) {
+      if (!/\s/.test(item.text[i])) {
+        items.push({ item, charIndex: i });
+      }
+    }
+  }
+
+  return items.length === expectedLength ? items : undefined;
+}
+
+/**
+ * Busca las líneas del chunk en el esqueleto, en orden
+ * Una línea que no aparece completa (ej: cruza un membrete eliminado)
+ * se ubica por sus primeros y últimos caracteres
+ * Las líneas que no se encuentran se omiten
+ */
+function findChunkRanges(
+  content: string,
+  skeleton: string,
+  cursor: number
+): SkeletonRange[] {
+  const ranges: SkeletonRange[] = [];
+  let position = cursor;
+
+  // Sin espacios ni restos de tokens cortados por el overlap (U+FFFD)
+  const lines = content
+    .split("\n")
+    .map(line => line.replace(/\s+/g, "").replace(/^\uFFFD+|\uFFFD+$/g, ""))
+    .filter(Boolean);
+
+  for (const line of lines) {
+    const range = findLine(line, skeleton, position);
+    if (range) {
+      ranges.push(range);
+      position = range.end;
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Busca una línea del chunk desde la posición indicada
+ * Si no aparece completa, usa sus primeros y últimos caracteres como anclas
+ */
+function findLine(line: string, skeleton: string, from: number): SkeletonRange | null {
+  const start = skeleton.indexOf(line, from);
+  if (start >= 0) {
+    return { start, end: start + line.length };
+  }
+
+  if (line.length <= ANCHOR_LENGTH * 2) return null;
+
+  const head = line.slice(0, ANCHOR_LENGTH);
+  const tail = line.slice(-ANCHOR_LENGTH);
+  const headStart = skeleton.indexOf(head, from);
+  if (headStart < 0) return null;
+
+  const tailStart = skeleton.indexOf(tail, headStart + head.length);
+  if (tailStart < 0) return null;
+
+  return { start: headStart, end: tailStart + tail.length };
+}
+
+/**
+ * Rectángulos que cubren un rango del esqueleto, uno por línea de texto
+ * Si el rango empieza o termina dentro de un fragmento se recorta proporcionalmente
+ */
+function getRangeBoxes(range: SkeletonRange, index: SkeletonIndex): BoundingBox[] {
+  const boxes: BoundingBox[] = [];
+
+  for (const page of index.pages) {
+    if (!page.items || page.end <= range.start || page.start >= range.end) continue;
+
+    const from = Math.max(range.start, page.start) - page.start;
+    const to = Math.min(range.end, page.end) - page.start;
+
+    // Primer y último carácter usado de cada fragmento
+    const usedItems = new Map<PageTextItem, { first: number; last: number }>();
+    for (const { item, charIndex } of page.items.slice(from, to)) {
+      const used = usedItems.get(item);
+      usedItems.set(item, {
+        first: used ? Math.min(used.first, charIndex) : charIndex,
+        last: used ? Math.max(used.last, charIndex) : charIndex
+      });
+    }
+
+    for (const [item, { first, last }] of usedItems) {
+      const charWidth = item.box.width / item.text.length;
+      const box: BoundingBox = {
+        pageNumber: page.pageNumber,
+        x: round(item.box.x + charWidth * first),
+        y: item.box.y,
+        width: round(charWidth * (last - first + 1)),
+        height: item.box.height
+      };
+
+      const previous = boxes[boxes.length - 1];
+      if (previous && isSameLine(previous, box)) {
+        mergeBoxes(previous, box);
+      } else {
+        boxes.push(box);
+      }
+    }
+  }
+
+  return boxes;
+}
+
+/**
+ * Indica si dos rectángulos están en la misma línea de la página
+ */
+function isSameLine(a: BoundingBox, b: BoundingBox): boolean {
+  return a.pageNumber === b.pageNumber &&
+    Math.abs(a.y - b.y) < Math.min(a.height, b.height) / 2;
+}
+
+/**
+ * Extiende un rectángulo para cubrir otro de la misma línea
+ */
+function mergeBoxes(target: BoundingBox, box: BoundingBox): void {
+  const right = Math.max(target.x + target.width, box.x + box.width);
+  const bottom = Math.max(target.y + target.height, box.y + box.height);
+  target.x = Math.min(target.x, box.x);
+  target.y = Math.min(target.y, box.y);
+  target.width = round(right - target.x);
+  target.height = round(bottom - target.y);
+}
+
+/**
+ * Redondea coordenadas relativas a 4 decimales
+ */
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
@@ -0,0 +1,53 @@
+import { fromPreTrained } from "@lenml/tokenizer-gemini";
+
+// ============================================
+// Tokenizer local de Gemini
+// ============================================
+
+// El vocabulario es grande: se carga una sola vez y solo cuando se necesita
+let tokenizer: ReturnType<typeof fromPreTrained> | null = null;
+
+function getTokenizer(): ReturnType<typeof fromPreTrained> {
+  if (!tokenizer) {
+    tokenizer = fromPreTrained();
+  }
+  return tokenizer;
+}
+
+// ============================================
+// Funciones de Conteo
+// ============================================
+
+/**
+ * Cuenta los tokens de un texto con el tokenizer del modelo
+ * Se ejecuta localmente, sin llamadas a la API
+ *
+ * @param text - Texto a medir
+ * @returns Número de tokens (sin tokens especiales)
+ */
+export function countTokens(text: string): number {
+  if (!text) return 0;
+  return getTokenizer().encode(text, { add_special_tokens: false }).length;
+}
+
+/**
+ * Toma las últimas palabras de un texto sin superar un máximo de tokens
+ * Útil para calcular el overlap entre chunks
+ *
+ * @param text - Texto de origen
+ * @param maxTokens - Máximo de tokens a conservar
+ * @returns Últimas palabras del texto
+ */
+export function takeLastTokens(text: string, maxTokens: number): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  const kept: string[] = [];
+  let tokens = 0;
+
+  for (let i = words.length - 1; i >= 0; i--) {
+    tokens += countTokens(" " + words[i]);
+    if (tokens > maxTokens) break;
+    kept.unshift(words[i]);
+  }
+
+  return kept.join(" ");
+}
@@ -1,7 +1,7 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  serverExternalPackages: ["pdf-parse", "@napi-rs/canvas"],
+  serverExternalPackages: ["pdf-parse", "pdfjs-dist", "@napi-rs/canvas", "tesseract.js", "@tesseract.js-data/spa", "@lenml/tokenizer-gemini", "@huggingface/transformers", "onnxruntime-node"],
 };
 
 export default nextConfig;
@@ -0,0 +1,9 @@
+-- Rango real de páginas por chunk
+-- page_number pasa a ser la página donde comienza el chunk y
+-- end_page_number la página donde termina (igual si no cruza páginas)
+ALTER TABLE document_chunks
+  ADD COLUMN IF NOT EXISTS end_page_number INTEGER;
+
+UPDATE document_chunks
+SET end_page_number = page_number
+WHERE end_page_number IS NULL;
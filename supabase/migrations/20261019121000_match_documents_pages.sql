@@ -0,0 +1,37 @@
+-- match_documents devuelve el rango de páginas de cada chunk
+-- para poder citar "Evolución, p. 12" junto a cada fragmento
+DROP FUNCTION IF EXISTS match_documents(VECTOR(768), FLOAT, INT, UUID);
+
+CREATE OR REPLACE FUNCTION match_documents(
+  query_embedding VECTOR(768),  -- Debe coincidir con outputDimensionality
+  match_threshold FLOAT DEFAULT 0.7,
+  match_count INT DEFAULT 5,
+  filter_document_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  similarity FLOAT,
+  metadata JSONB,
+  page_number INTEGER,
+  end_page_number INTEGER
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    dc.id,
+    dc.content,
+    1 - (dc.embedding <=> query_embedding) AS similarity,
+    dc.metadata,
+    dc.page_number,
+    dc.end_page_number
+  FROM document_chunks dc
+  WHERE 
+    (filter_document_id IS NULL OR dc.document_id = filter_document_id)
+    AND 1 - (dc.embedding <=> query_embedding) > match_threshold
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,11 @@
+-- Mapping de desidentificación por documento
+-- Placeholder → valor original (ej: "[DNI_1]" → "12.345.678")
+-- Los textos se envían a Gemini con placeholders; el mapping nunca sale del servidor
+CREATE TABLE IF NOT EXISTS document_phi_mappings (
+  document_id UUID PRIMARY KEY REFERENCES medical_documents(id) ON DELETE CASCADE,
+  mapping JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- RLS habilitado sin políticas: solo accesible con service role
+ALTER TABLE document_phi_mappings ENABLE ROW LEVEL SECURITY;
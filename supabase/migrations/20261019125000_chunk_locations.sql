@@ -0,0 +1,54 @@
+-- Ubicación de cada chunk en el documento original
+-- char_start/char_end: offsets en el texto extraído (páginas separadas por \f)
+-- bounding_boxes: rectángulos relativos a la página (0 a 1), uno por línea
+--   [{ "pageNumber": 3, "x": 0.12, "y": 0.40, "width": 0.7, "height": 0.02 }, ...]
+ALTER TABLE document_chunks
+  ADD COLUMN IF NOT EXISTS char_start INTEGER,
+  ADD COLUMN IF NOT EXISTS char_end INTEGER,
+  ADD COLUMN IF NOT EXISTS bounding_boxes JSONB;
+
+DROP FUNCTION IF EXISTS match_documents(VECTOR(768), FLOAT, INT, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION match_documents(
+  query_embedding VECTOR(768),  -- Debe coincidir con outputDimensionality
+  match_threshold FLOAT DEFAULT 0.7,
+  match_count INT DEFAULT 5,
+  filter_document_id UUID DEFAULT NULL,
+  filter_document_type TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  similarity FLOAT,
+  metadata JSONB,
+  page_number INTEGER,
+  end_page_number INTEGER,
+  token_count INTEGER,
+  char_start INTEGER,
+  char_end INTEGER,
+  bounding_boxes JSONB
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    dc.id,
+    dc.content,
+    1 - (dc.embedding <=> query_embedding) AS similarity,
+    dc.metadata,
+    dc.page_number,
+    dc.end_page_number,
+    dc.token_count,
+    dc.char_start,
+    dc.char_end,
+    dc.bounding_boxes
+  FROM document_chunks dc
+  WHERE 
+    (filter_document_id IS NULL OR dc.document_id = filter_document_id)
+    AND (filter_document_type IS NULL OR dc.metadata->>'documentType' = filter_document_type)
+    AND 1 - (dc.embedding <=> query_embedding) > match_threshold
+  ORDER BY dc.embedding <=> query_embedding
+  LIMIT match_count;
+END;
+$$;
@@ -0,0 +1,23 @@
+-- Filas de las tablas de laboratorio extraídas de cada documento
+-- El texto de la tabla sigue en document_chunks para la búsqueda semántica
+CREATE TABLE IF NOT EXISTS document_lab_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES medical_documents(id) ON DELETE CASCADE,
+  row_index INTEGER NOT NULL,           -- Orden de la fila en el documento
+  page_number INTEGER NOT NULL,
+  analyte TEXT NOT NULL,
+  value TEXT NOT NULL,                  -- Tal como figura en el informe
+  numeric_value DOUBLE PRECISION,       -- NULL para valores cualitativos
+  unit TEXT,
+  reference_range TEXT,
+  flag TEXT CHECK (flag IN ('high', 'low', 'abnormal', 'normal')),
+  sample_date DATE,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS document_lab_results_document_idx
+  ON document_lab_results (document_id, row_index);
+
+-- Búsqueda de un analito a lo largo de los documentos (ej: evolución de la creatinina)
+CREATE INDEX IF NOT EXISTS document_lab_results_analyte_idx
+  ON document_lab_results (lower(analyte));
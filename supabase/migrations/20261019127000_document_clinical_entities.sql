@@ -0,0 +1,16 @@
+-- Entidades clínicas extraídas de los chunks de cada documento
+-- Medicación (dosis, vía, frecuencia), diagnósticos, alergias, procedimientos y signos vitales
+CREATE TABLE IF NOT EXISTS document_clinical_entities (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES medical_documents(id) ON DELETE CASCADE,
+  entity_index INTEGER NOT NULL,        -- Orden de aparición en el documento
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('medication', 'diagnosis', 'allergy', 'procedure', 'vital_sign')),
+  name TEXT NOT NULL,
+  attributes JSONB NOT NULL DEFAULT '{}'::jsonb,  -- dose, route, frequency / value, unit
+  chunk_index INTEGER NOT NULL,         -- Chunk de origen (document_chunks.chunk_index)
+  page_number INTEGER NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS document_clinical_entities_document_idx
+  ON document_clinical_entities (document_id, entity_type, entity_index);
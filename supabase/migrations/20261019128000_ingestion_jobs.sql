@@ -0,0 +1,21 @@
+-- Trabajos de ingesta en segundo plano
+-- La subida responde con el ID del trabajo y la UI consulta la etapa y el avance
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID,
+  filename TEXT NOT NULL,
+  mime_type TEXT NOT NULL,
+  storage_path TEXT,
+  stage TEXT NOT NULL DEFAULT 'queued'
+    CHECK (stage IN ('queued', 'extracting', 'chunking', 'embedding', 'storing', 'done', 'failed')),
+  progress INTEGER NOT NULL DEFAULT 0 CHECK (progress BETWEEN 0 AND 100),
+  options JSONB,                        -- Configuración de chunking elegida al subir
+  document_id UUID REFERENCES medical_documents(id) ON DELETE SET NULL,
+  result JSONB,                         -- Resumen del documento procesado (etapa "done")
+  error TEXT,                           -- Motivo del fallo (etapa "failed")
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS ingestion_jobs_user_idx
+  ON ingestion_jobs (user_id, created_at DESC);
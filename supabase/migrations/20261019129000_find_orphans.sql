@@ -0,0 +1,48 @@
+-- Búsqueda de restos de ingestas fallidas (ver lib/ingestion-sweeper)
+-- Solo reportan: la limpieza queda a criterio de quien revise el reporte
+
+-- Documentos sin ningún chunk
+CREATE OR REPLACE FUNCTION find_orphan_documents(older_than TIMESTAMPTZ)
+RETURNS TABLE (
+  id UUID,
+  filename TEXT,
+  uploaded_at TIMESTAMPTZ,
+  storage_path TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT md.id, md.filename, md.uploaded_at, md.metadata->>'storagePath'
+  FROM medical_documents md
+  WHERE md.uploaded_at < older_than
+    AND NOT EXISTS (SELECT 1 FROM document_chunks dc WHERE dc.document_id = md.id)
+  ORDER BY md.uploaded_at;
+$$;
+
+-- Archivos del storage que ningún documento ni trabajo en curso referencia
+CREATE OR REPLACE FUNCTION find_orphan_files(
+  older_than TIMESTAMPTZ,
+  bucket TEXT DEFAULT 'files',
+  path_prefix TEXT DEFAULT 'documents/'
+)
+RETURNS TABLE (
+  storage_path TEXT,
+  created_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT o.name, o.created_at
+  FROM storage.objects o
+  WHERE o.bucket_id = bucket
+    AND o.name LIKE path_prefix || '%'
+    AND o.created_at < older_than
+    AND NOT EXISTS (
+      SELECT 1 FROM medical_documents md WHERE md.metadata->>'storagePath' = o.name
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM ingestion_jobs j
+      WHERE j.storage_path = o.name AND j.stage NOT IN ('done', 'failed')
+    )
+  ORDER BY o.created_at;
+$$;
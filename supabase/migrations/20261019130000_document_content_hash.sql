@@ -0,0 +1,19 @@
+-- Deduplicación de subidas por contenido
+-- options.contentHash del trabajo de ingesta guarda el SHA-256 del archivo;
+-- una subida repetida reutiliza el documento de una ingesta terminada con las mismas opciones
+
+CREATE INDEX IF NOT EXISTS ingestion_jobs_content_hash_idx
+  ON ingestion_jobs ((options->>'contentHash'))
+  WHERE stage = 'done';
+
+-- Usuarios que subieron un documento ya existente
+-- Tienen el mismo acceso que el dueño (datos re-identificados, entidades)
+CREATE TABLE IF NOT EXISTS document_uploads (
+  document_id UUID NOT NULL REFERENCES medical_documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  uploaded_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (document_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS document_uploads_user_idx
+  ON document_uploads (user_id);
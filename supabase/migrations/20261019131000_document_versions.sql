@@ -0,0 +1,32 @@
+-- Versiones de un mismo registro clínico
+-- Cada documento pertenece a un registro (record_id); una nueva subida del registro
+-- se guarda como la versión siguiente y apunta a la anterior
+ALTER TABLE medical_documents
+  ADD COLUMN IF NOT EXISTS record_id UUID,
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1 CHECK (version >= 1),
+  ADD COLUMN IF NOT EXISTS previous_version_id UUID REFERENCES medical_documents(id) ON DELETE SET NULL;
+
+-- Los documentos existentes son la primera versión de su propio registro
+UPDATE medical_documents SET record_id = id WHERE record_id IS NULL;
+
+-- Un documento sin registro explícito inicia uno nuevo
+CREATE OR REPLACE FUNCTION set_document_record_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.record_id := COALESCE(NEW.record_id, NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS medical_documents_record_id ON medical_documents;
+CREATE TRIGGER medical_documents_record_id
+  BEFORE INSERT ON medical_documents
+  FOR EACH ROW EXECUTE FUNCTION set_document_record_id();
+
+ALTER TABLE medical_documents ALTER COLUMN record_id SET NOT NULL;
+
+-- Evita dos subidas simultáneas con el mismo número de versión
+CREATE UNIQUE INDEX IF NOT EXISTS medical_documents_record_version_idx
+  ON medical_documents (record_id, version);
@@ -0,0 +1,11 @@
+-- Cache de embeddings direccionado por contenido
+-- key = SHA-256 de (modelo, tipo de tarea, dimensión, texto); el texto no se guarda
+CREATE TABLE IF NOT EXISTS embedding_cache (
+  key TEXT PRIMARY KEY,
+  model TEXT NOT NULL,
+  embedding REAL[] NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Solo accesible con service role
+ALTER TABLE embedding_cache ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,142 @@
+-- Modelo y dimensión de cada vector
+-- La columna embedding deja de tener dimensión fija: match_documents solo compara
+-- vectores del mismo modelo y dimensión que la query
+-- embedding_next*: vector nuevo mientras se re-vectoriza (ver lib/reembedding.ts)
+ALTER TABLE document_chunks
+  ADD COLUMN IF NOT EXISTS embedding_model TEXT,
+  ADD COLUMN IF NOT EXISTS embedding_dimensions INTEGER,
+  ADD COLUMN IF NOT EXISTS embedding_next VECTOR,
+  ADD COLUMN IF NOT EXISTS embedding_next_model TEXT,
+  ADD COLUMN IF NOT EXISTS embedding_next_dimensions INTEGER;
+
+-- Los chunks existentes se generaron con gemini-embedding-001 a 768 dimensiones
+UPDATE document_chunks
+SET embedding_model = 'gemini-embedding-001', embedding_dimensions = 768
+WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+-- Un índice ivfflat necesita dimensión fija: uno parcial por dimensión en uso
+DROP FUNCTION IF EXISTS match_documents(VECTOR(768), FLOAT, INT, UUID, TEXT);
+DROP INDEX IF EXISTS document_chunks_embedding_idx;
+
+ALTER TABLE document_chunks ALTER COLUMN embedding TYPE VECTOR;
+
+CREATE INDEX IF NOT EXISTS document_chunks_embedding_768_idx
+  ON document_chunks USING ivfflat ((embedding::vector(768)) vector_cosine_ops)
+  WITH (lists = 100)
+  WHERE embedding_dimensions = 768;
+
+-- La dimensión de la query se inserta en la consulta para que use el índice parcial
+CREATE OR REPLACE FUNCTION match_documents(
+  query_embedding VECTOR,
+  filter_embedding_model TEXT,
+  match_threshold FLOAT DEFAULT 0.7,
+  match_count INT DEFAULT 5,
+  filter_document_id UUID DEFAULT NULL,
+  filter_document_type TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  similarity FLOAT,
+  metadata JSONB,
+  page_number INTEGER,
+  end_page_number INTEGER,
+  token_count INTEGER,
+  char_start INTEGER,
+  char_end INTEGER,
+  bounding_boxes JSONB
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY EXECUTE format($query$
+    SELECT
+      dc.id,
+      dc.content,
+      1 - (dc.embedding::vector(%1$s) <=> $1::vector(%1$s)) AS similarity,
+      dc.metadata,
+      dc.page_number,
+      dc.end_page_number,
+      dc.token_count,
+      dc.char_start,
+      dc.char_end,
+      dc.bounding_boxes
+    FROM document_chunks dc
+    WHERE
+      dc.embedding_model = $2
+      AND dc.embedding_dimensions = %1$s
+      AND ($3 IS NULL OR dc.document_id = $3)
+      AND ($4 IS NULL OR dc.metadata->>'documentType' = $4)
+      AND 1 - (dc.embedding::vector(%1$s) <=> $1::vector(%1$s)) > $5
+    ORDER BY dc.embedding::vector(%1$s) <=> $1::vector(%1$s)
+    LIMIT $6
+  $query$, vector_dims(query_embedding))
+  USING query_embedding, filter_embedding_model, filter_document_id, filter_document_type,
+    match_threshold, match_count;
+END;
+$$;
+
+-- ============================================
+-- Re-vectorización
+-- ============================================
+
+-- Corridas de re-vectorización (una por modelo y dimensión de destino)
+CREATE TABLE IF NOT EXISTS embedding_migrations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  dimensions INTEGER NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'done', 'failed')),
+  processed INTEGER NOT NULL DEFAULT 0,     -- Chunks re-vectorizados hasta ahora
+  total INTEGER NOT NULL DEFAULT 0,         -- Chunks a re-vectorizar al iniciar
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Guarda un batch de vectores nuevos en embedding_next
+-- updates: [{ "id": "...", "embedding": [0.1, ...] }, ...]
+CREATE OR REPLACE FUNCTION stage_chunk_embeddings(
+  updates JSONB,
+  target_model TEXT,
+  target_dimensions INTEGER
+)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  WITH staged AS (
+    UPDATE document_chunks dc
+    SET
+      embedding_next = (u->>'embedding')::vector,
+      embedding_next_model = target_model,
+      embedding_next_dimensions = target_dimensions
+    FROM jsonb_array_elements(updates) u
+    WHERE dc.id = (u->>'id')::uuid
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM staged;
+$$;
+
+-- Pasa los vectores nuevos a embedding en una sola transacción
+CREATE OR REPLACE FUNCTION promote_chunk_embeddings(
+  target_model TEXT,
+  target_dimensions INTEGER
+)
+RETURNS INTEGER
+LANGUAGE sql
+AS $$
+  WITH promoted AS (
+    UPDATE document_chunks
+    SET
+      embedding = embedding_next,
+      embedding_model = embedding_next_model,
+      embedding_dimensions = embedding_next_dimensions,
+      embedding_next = NULL,
+      embedding_next_model = NULL,
+      embedding_next_dimensions = NULL
+    WHERE embedding_next_model = target_model
+      AND embedding_next_dimensions = target_dimensions
+    RETURNING 1
+  )
+  SELECT COUNT(*)::INTEGER FROM promoted;
+$$;
@@ -0,0 +1,6 @@
+-- Embeddings contextuales
+-- context_header guarda el encabezado (título, tipo, sección, fecha) que se antepuso al chunk al vectorizarlo
+-- content sigue siendo el texto original; NULL si el chunk se vectorizó sin contexto
+
+ALTER TABLE document_chunks
+  ADD COLUMN IF NOT EXISTS context_header TEXT;
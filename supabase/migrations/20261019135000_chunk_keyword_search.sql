@@ -0,0 +1,59 @@
+-- Búsqueda por palabras clave sobre el contenido de los chunks (ver hybridSearch en lib/retrieval.ts)
+-- Índice full-text con la configuración spanish: stemming y stopwords del español
+
+ALTER TABLE document_chunks
+  ADD COLUMN IF NOT EXISTS content_tsv TSVECTOR
+  GENERATED ALWAYS AS (to_tsvector('spanish', coalesce(content, ''))) STORED;
+
+CREATE INDEX IF NOT EXISTS document_chunks_content_tsv_idx
+  ON document_chunks USING GIN (content_tsv);
+
+-- Los términos de la consulta se combinan con OR: una pregunta en lenguaje natural
+-- rara vez contiene todas sus palabras en un mismo chunk; ts_rank_cd premia a los que
+-- contienen más términos y más cercanos
+-- Los lexemas ya vienen normalizados por spanish, se arman con 'simple' para no volver a procesarlos
+CREATE OR REPLACE FUNCTION match_chunks_keyword(
+  query_text TEXT,
+  match_count INT DEFAULT 10,
+  filter_document_id UUID DEFAULT NULL,
+  filter_document_type TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  rank FLOAT,
+  metadata JSONB,
+  page_number INTEGER,
+  end_page_number INTEGER,
+  token_count INTEGER,
+  char_start INTEGER,
+  char_end INTEGER,
+  bounding_boxes JSONB
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH terms AS (
+    SELECT to_tsquery('simple', string_agg(quote_literal(lexeme), ' | ')) AS query
+    FROM unnest(to_tsvector('spanish', query_text))
+  )
+  SELECT
+    dc.id,
+    dc.content,
+    ts_rank_cd(dc.content_tsv, terms.query)::FLOAT AS rank,
+    dc.metadata,
+    dc.page_number,
+    dc.end_page_number,
+    dc.token_count,
+    dc.char_start,
+    dc.char_end,
+    dc.bounding_boxes
+  FROM document_chunks dc, terms
+  WHERE
+    terms.query IS NOT NULL
+    AND dc.content_tsv @@ terms.query
+    AND (filter_document_id IS NULL OR dc.document_id = filter_document_id)
+    AND (filter_document_type IS NULL OR dc.metadata->>'documentType' = filter_document_type)
+  ORDER BY rank DESC
+  LIMIT match_count;
+$$;
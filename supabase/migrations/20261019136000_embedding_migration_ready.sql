@@ -0,0 +1,82 @@
+-- Re-vectorización sin cortes en la búsqueda
+-- Una corrida que terminó de vectorizar queda 'ready': los vectores nuevos siguen en embedding_next
+-- hasta que EMBEDDING_PROVIDER / EMBEDDING_DIMENSIONS apuntan al destino; recién ahí se promueven
+ALTER TABLE embedding_migrations DROP CONSTRAINT IF EXISTS embedding_migrations_status_check;
+ALTER TABLE embedding_migrations
+  ADD CONSTRAINT embedding_migrations_status_check
+  CHECK (status IN ('running', 'ready', 'done', 'failed'));
+
+CREATE INDEX IF NOT EXISTS document_chunks_embedding_next_768_idx
+  ON document_chunks USING ivfflat ((embedding_next::vector(768)) vector_cosine_ops)
+  WITH (lists = 100)
+  WHERE embedding_next_dimensions = 768;
+
+-- match_documents lee el vector del modelo de la query: el actual o, si todavía no se
+-- promovió, el nuevo (embedding_next). Así el cambio de configuración no deja la búsqueda vacía
+CREATE OR REPLACE FUNCTION match_documents(
+  query_embedding VECTOR,
+  filter_embedding_model TEXT,
+  match_threshold FLOAT DEFAULT 0.7,
+  match_count INT DEFAULT 5,
+  filter_document_id UUID DEFAULT NULL,
+  filter_document_type TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  content TEXT,
+  similarity FLOAT,
+  metadata JSONB,
+  page_number INTEGER,
+  end_page_number INTEGER,
+  token_count INTEGER,
+  char_start INTEGER,
+  char_end INTEGER,
+  bounding_boxes JSONB
+)
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY EXECUTE format($query$
+    SELECT
+      m.id, m.content, 1 - m.distance AS similarity, m.metadata, m.page_number,
+      m.end_page_number, m.token_count, m.char_start, m.char_end, m.bounding_boxes
+    FROM (
+      (
+        SELECT
+          dc.id, dc.content, dc.metadata, dc.page_number, dc.end_page_number,
+          dc.token_count, dc.char_start, dc.char_end, dc.bounding_boxes,
+          dc.embedding::vector(%1$s) <=> $1::vector(%1$s) AS distance
+        FROM document_chunks dc
+        WHERE
+          dc.embedding_model = $2
+          AND dc.embedding_dimensions = %1$s
+          AND ($3 IS NULL OR dc.document_id = $3)
+          AND ($4 IS NULL OR dc.metadata->>'documentType' = $4)
+        ORDER BY dc.embedding::vector(%1$s) <=> $1::vector(%1$s)
+        LIMIT $6
+      )
+      UNION ALL
+      (
+        SELECT
+          dc.id, dc.content, dc.metadata, dc.page_number, dc.end_page_number,
+          dc.token_count, dc.char_start, dc.char_end, dc.bounding_boxes,
+          dc.embedding_next::vector(%1$s) <=> $1::vector(%1$s) AS distance
+        FROM document_chunks dc
+        WHERE
+          dc.embedding_next_model = $2
+          AND dc.embedding_next_dimensions = %1$s
+          AND (dc.embedding_model IS DISTINCT FROM $2 OR dc.embedding_dimensions IS DISTINCT FROM %1$s)
+          AND ($3 IS NULL OR dc.document_id = $3)
+          AND ($4 IS NULL OR dc.metadata->>'documentType' = $4)
+        ORDER BY dc.embedding_next::vector(%1$s) <=> $1::vector(%1$s)
+        LIMIT $6
+      )
+    ) m
+    WHERE 1 - m.distance > $5
+    ORDER BY m.distance
+    LIMIT $6
+  $query$, vector_dims(query_embedding))
+  USING query_embedding, filter_embedding_model, filter_document_id, filter_document_type,
+    match_threshold, match_count;
+END;
+$$;
@@ -0,0 +1,9 @@
+// Los paquetes de datos de idioma de tesseract.js no incluyen tipos
+declare module "@tesseract.js-data/spa" {
+  const languageData: {
+    code: string;
+    gzip: boolean;
+    langPath: string;
+  };
+  export default languageData;
+}